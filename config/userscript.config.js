@@ -49,9 +49,15 @@ const metadata = {
     'GM_xmlhttpRequest',
     'GM_getValue',
     'GM_setValue',
+    'GM_deleteValue',
+    'GM_listValues',
+    'GM_addValueChangeListener',
+    'GM_removeValueChangeListener',
     'GM.xmlHttpRequest',
     'GM.getValue',
-    'GM.setValue'
+    'GM.setValue',
+    'GM.deleteValue',
+    'GM.listValues'
   ],
   'run-at': 'document_start', // run as soon as possible, delay loading in code
   'connect': '*'
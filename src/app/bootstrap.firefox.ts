@@ -54,10 +54,10 @@ fonts.push(trebuc, trebucbd, trebucbi, trebucit);
 
 async function main() {
   if (await LocalStorageMechanism.isAvailable()) {
-    container.bind<IMechanism>(IMechanismSymbol).to(LocalStorageMechanism);
+    container.bind<IMechanism>(IMechanismSymbol).to(LocalStorageMechanism).inSingletonScope();
   } else {
     // No storage mechanism is available
-    container.bind<IMechanism>(IMechanismSymbol).to(EmptyMechanism);
+    container.bind<IMechanism>(IMechanismSymbol).to(EmptyMechanism).inSingletonScope();
   }
 
   runBootstrap();
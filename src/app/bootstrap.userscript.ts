@@ -31,14 +31,14 @@ addFile('fonts.conf', libassFontsConfigUrl);
 
 async function main() {
   if (await LegacyGreasemonkeyMechanism.isAvailable()) {
-    container.bind<IMechanism>(IMechanismSymbol).to(LegacyGreasemonkeyMechanism);
+    container.bind<IMechanism>(IMechanismSymbol).to(LegacyGreasemonkeyMechanism).inSingletonScope();
   } else if (await GreasemonkeyMechanism.isAvailable()) {
-    container.bind<IMechanism>(IMechanismSymbol).to(GreasemonkeyMechanism);
+    container.bind<IMechanism>(IMechanismSymbol).to(GreasemonkeyMechanism).inSingletonScope();
   } else if (await LocalStorageMechanism.isAvailable()) {
-    container.bind<IMechanism>(IMechanismSymbol).to(LocalStorageMechanism);
+    container.bind<IMechanism>(IMechanismSymbol).to(LocalStorageMechanism).inSingletonScope();
   } else {
     // No storage mechanism is available
-    container.bind<IMechanism>(IMechanismSymbol).to(EmptyMechanism);
+    container.bind<IMechanism>(IMechanismSymbol).to(EmptyMechanism).inSingletonScope();
   }
 
   runBootstrap();
@@ -6,6 +6,7 @@ import { setCrossHttpClient, setXMLHttpRequestFactory } from "./config";
 import container from "../config/inversify.config";
 import { IMechanism, IMechanismSymbol } from "./storage/mechanism/IMechanism";
 import { WebExtensionMechanism } from "./storage/mechanism/WebExtensionMechanism";
+import { WebExtensionSyncMechanism } from "./storage/mechanism/WebExtensionSyncMechanism";
 import { XMLHttpRequestFactory } from "./http/XMLHttpRequestFactory";
 
 function getURL(path: string): string {
@@ -55,6 +56,14 @@ fonts.push(times, timesbd, timesbi, timesi);
 // Trebuchet MS
 fonts.push(trebuc, trebucbd, trebucbi, trebucit);
 
-container.bind<IMechanism>(IMechanismSymbol).to(WebExtensionMechanism);
+async function main() {
+  if (await WebExtensionSyncMechanism.isAvailable()) {
+    container.bind<IMechanism>(IMechanismSymbol).to(WebExtensionSyncMechanism).inSingletonScope();
+  } else {
+    container.bind<IMechanism>(IMechanismSymbol).to(WebExtensionMechanism).inSingletonScope();
+  }
+
+  runBootstrap();
+}
 
-runBootstrap();
\ No newline at end of file
+main();
\ No newline at end of file
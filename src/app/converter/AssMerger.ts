@@ -0,0 +1,212 @@
+interface IAssSection {
+  header: string;
+  lines: string[];
+}
+
+/**
+ * The default values of the style fields that are missing in the secondary
+ * script.
+ */
+const STYLE_DEFAULTS: {[field: string]: string} = {
+  Fontname: "Arial",
+  Fontsize: "20",
+  PrimaryColour: "&H00FFFFFF",
+  SecondaryColour: "&H000000FF",
+  OutlineColour: "&H00000000",
+  BackColour: "&H80000000",
+  ScaleX: "100",
+  ScaleY: "100",
+  BorderStyle: "1",
+  Outline: "2",
+  Shadow: "0",
+  Alignment: "8",
+  MarginL: "10",
+  MarginR: "10",
+  MarginV: "10",
+  Encoding: "1"
+};
+
+const STYLE_PREFIX = "Secondary-";
+
+function parseSections(content: string): IAssSection[] {
+  const sections: IAssSection[] = [{ header: "", lines: [] }];
+  const lines = content.replace(/^\uFEFF/, '').split(/\r?\n/);
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].trim();
+    if (/^\[.*\]$/.test(line)) {
+      sections.push({ header: line, lines: [] });
+    } else if (line) {
+      sections[sections.length - 1].lines.push(line);
+    }
+  }
+  return sections;
+}
+
+function findSection(sections: IAssSection[], headers: string[]): IAssSection|undefined {
+  return sections.filter(section => headers.indexOf(section.header.toLowerCase()) !== -1)[0];
+}
+
+function splitLine(line: string): { type: string, value: string } {
+  const index = line.indexOf(':');
+  if (index === -1) return { type: "", value: line };
+
+  return { type: line.substring(0, index), value: line.substring(index + 1) };
+}
+
+function getFormat(section: IAssSection|undefined): string[] {
+  if (!section) return [];
+
+  const line = section.lines.filter(line => splitLine(line).type === "Format")[0];
+  return line ? splitLine(line).value.split(',').map(name => name.trim()) : [];
+}
+
+/**
+ * Parses the fields of a line by its format. The last field may contain
+ * commas.
+ */
+function parseFields(value: string, format: string[]): {[field: string]: string} {
+  const values = value.split(',');
+  const fields: {[field: string]: string} = {};
+  for (let i = 0; i < format.length; i++) {
+    fields[format[i]] = i === format.length - 1
+      ? values.slice(i).join(',').replace(/^\s+/, '')
+      : (values[i] || "").trim();
+  }
+  return fields;
+}
+
+function getScriptInfo(sections: IAssSection[], name: string): string|undefined {
+  const section = findSection(sections, ["[script info]"]);
+  if (!section) return undefined;
+
+  const line = section.lines.filter(line => splitLine(line).type === name)[0];
+  return line ? splitLine(line).value.trim() : undefined;
+}
+
+function getPlayRes(sections: IAssSection[]): { x: number, y: number } {
+  // The defaults of the ASS specification.
+  const x = parseInt(getScriptInfo(sections, "PlayResX") || "", 10);
+  const y = parseInt(getScriptInfo(sections, "PlayResY") || "", 10);
+  return {
+    x: x || (y ? Math.round(y*4/3) : 384),
+    y: y || (x ? Math.round(x*3/4) : 288)
+  };
+}
+
+function scale(value: string|undefined, factor: number): string|undefined {
+  const number = parseFloat(value || "");
+  return isNaN(number) ? value : (Math.round(number*factor*100)/100).toString();
+}
+
+/**
+ * Returns the numpad alignment in the top row for an alignment.
+ * @param alignment the alignment of the style.
+ * @param legacy whether it's the legacy alignment of v4 styles.
+ */
+function getTopAlignment(alignment: number, legacy: boolean): number {
+  if (isNaN(alignment)) return 8;
+  if (legacy) {
+    // The legacy alignment adds 4 for the top and 8 for the middle.
+    alignment = ((alignment - 1) & 3) + 1;
+  }
+  return (alignment - 1)%3 + 7;
+}
+
+/**
+ * Merges the dialogue of a secondary ASS script into a primary ASS script. The
+ * secondary styles are scaled to the resolution of the primary script and
+ * moved to the top of the video. Signs and drawings of the secondary script
+ * are left out as they would overlap with the primary script.
+ */
+export class AssMerger {
+  private _primary: string;
+  private _secondary: string;
+
+  constructor(primary: string, secondary: string) {
+    this._primary = primary;
+    this._secondary = secondary;
+  }
+
+  getContentAsAss(): string {
+    const primary = parseSections(this._primary);
+    const secondary = parseSections(this._secondary);
+
+    const primaryRes = getPlayRes(primary);
+    const secondaryRes = getPlayRes(secondary);
+    const scaleX = primaryRes.x/secondaryRes.x;
+    const scaleY = primaryRes.y/secondaryRes.y;
+
+    const primaryStyles = findSection(primary, ["[v4+ styles]", "[v4 styles]"]);
+    const primaryEvents = findSection(primary, ["[events]"]);
+    if (!primaryStyles || !primaryEvents) return this._primary;
+
+    const primaryStyleFormat = getFormat(primaryStyles);
+    const primaryEventFormat = getFormat(primaryEvents);
+    if (primaryStyleFormat.length === 0 || primaryEventFormat.length === 0) {
+      return this._primary;
+    }
+
+    const legacyPrimary = primaryStyles.header.toLowerCase() === "[v4 styles]";
+
+    const secondaryStyles = findSection(secondary, ["[v4+ styles]", "[v4 styles]"]);
+    const legacySecondary = !!secondaryStyles && secondaryStyles.header.toLowerCase() === "[v4 styles]";
+    const secondaryStyleFormat = getFormat(secondaryStyles);
+    if (secondaryStyles) {
+      for (let i = 0; i < secondaryStyles.lines.length; i++) {
+        const line = splitLine(secondaryStyles.lines[i]);
+        if (line.type !== "Style") continue;
+
+        const fields = parseFields(line.value, secondaryStyleFormat);
+        fields["Name"] = STYLE_PREFIX + fields["Name"];
+        fields["Fontsize"] = scale(fields["Fontsize"], scaleY) || "";
+        fields["Outline"] = scale(fields["Outline"], scaleY) || "";
+        fields["Shadow"] = scale(fields["Shadow"], scaleY) || "";
+        fields["MarginL"] = scale(fields["MarginL"], scaleX) || "";
+        fields["MarginR"] = scale(fields["MarginR"], scaleX) || "";
+        fields["MarginV"] = scale(fields["MarginV"], scaleY) || "";
+
+        let alignment = getTopAlignment(parseInt(fields["Alignment"], 10), legacySecondary);
+        if (legacyPrimary) {
+          alignment -= 2;
+        }
+        fields["Alignment"] = alignment.toString();
+
+        primaryStyles.lines.push("Style: " + primaryStyleFormat
+          .map(field => fields[field] !== undefined && fields[field] !== "" ? fields[field] : (STYLE_DEFAULTS[field] || "0"))
+          .join(","));
+      }
+    }
+
+    const secondaryEvents = findSection(secondary, ["[events]"]);
+    const secondaryEventFormat = getFormat(secondaryEvents);
+    if (secondaryEvents) {
+      for (let i = 0; i < secondaryEvents.lines.length; i++) {
+        const line = splitLine(secondaryEvents.lines[i]);
+        if (line.type !== "Dialogue") continue;
+
+        const fields = parseFields(line.value, secondaryEventFormat);
+        const text = fields["Text"] || "";
+        if (/\\(pos|move|org|clip|iclip)\(|\\p[1-9]/.test(text)) continue;
+
+        fields["Style"] = STYLE_PREFIX + (fields["Style"] || "Default");
+        fields["MarginL"] = scale(fields["MarginL"], scaleX) || "0";
+        fields["MarginR"] = scale(fields["MarginR"], scaleX) || "0";
+        fields["MarginV"] = scale(fields["MarginV"], scaleY) || "0";
+
+        // Remove the alignment overrides to keep the dialogue at the top.
+        fields["Text"] = text
+          .replace(/\\an?\d+/g, '')
+          .replace(/\{\}/g, '');
+
+        primaryEvents.lines.push("Dialogue: " + primaryEventFormat
+          .map(field => fields[field] !== undefined ? fields[field] : (/^(Layer|Margin)/.test(field) ? "0" : ""))
+          .join(","));
+      }
+    }
+
+    return primary
+      .map(section => (section.header ? section.header + "\n" : "") + section.lines.map(line => line + "\n").join(""))
+      .filter(section => section !== "")
+      .join("\n");
+  }
+}
\ No newline at end of file
@@ -0,0 +1,31 @@
+import { parseAssEvents, formatTextTimestamp, convertAssText, getAssAlignment } from './ass';
+
+export class AssToSrt {
+  private _content: string;
+
+  constructor(content: string) {
+    this._content = content;
+  }
+
+  getContentAsSrt(): string {
+    const events = parseAssEvents(this._content);
+
+    let output = "";
+    let index = 1;
+    for (let i = 0; i < events.length; i++) {
+      const text = convertAssText(events[i].text, false);
+      if (!text) continue;
+
+      // Most SRT players understand the \an override tag for the alignment.
+      const alignment = getAssAlignment(events[i].text);
+      const prefix = alignment && alignment !== 2 ? "{\\an" + alignment + "}" : "";
+
+      output += index++ + "\n";
+      output += formatTextTimestamp(events[i].start, ',') + " --> " + formatTextTimestamp(events[i].end, ',') + "\n";
+      // Empty lines would end the subtitle.
+      output += prefix + text.replace(/\n+/g, '\n') + "\n\n";
+    }
+
+    return output;
+  }
+}
\ No newline at end of file
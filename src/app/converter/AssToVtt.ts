@@ -0,0 +1,54 @@
+import { parseAssEvents, formatTextTimestamp, convertAssText, getAssAlignment } from './ass';
+
+/**
+ * Returns the cue settings for a numpad alignment.
+ */
+function getCueSettings(alignment: number|undefined): string {
+  if (!alignment) return "";
+
+  const settings: string[] = [];
+  if (alignment >= 7) {
+    settings.push("line:0");
+  } else if (alignment >= 4) {
+    settings.push("line:50%");
+  }
+
+  const horizontal = (alignment - 1)%3;
+  if (horizontal === 0) {
+    settings.push("align:start");
+  } else if (horizontal === 2) {
+    settings.push("align:end");
+  }
+
+  return settings.length > 0 ? " " + settings.join(" ") : "";
+}
+
+export class AssToVtt {
+  private _content: string;
+
+  constructor(content: string) {
+    this._content = content;
+  }
+
+  getContentAsVtt(): string {
+    const events = parseAssEvents(this._content);
+
+    let output = "WEBVTT\n\n";
+    for (let i = 0; i < events.length; i++) {
+      let text = convertAssText(events[i].text, true);
+      if (!text) continue;
+
+      const name = events[i].name;
+      if (name) {
+        text = "<v " + name.replace(/>/g, '') + ">" + text;
+      }
+
+      output += formatTextTimestamp(events[i].start, '.') + " --> " + formatTextTimestamp(events[i].end, '.');
+      output += getCueSettings(getAssAlignment(events[i].text)) + "\n";
+      // Empty lines would end the cue.
+      output += text.replace(/\n+/g, '\n') + "\n\n";
+    }
+
+    return output;
+  }
+}
\ No newline at end of file
@@ -0,0 +1,47 @@
+import { IAssEvent, parseTimestamp, convertMarkup, createAssScript } from './ass';
+
+export class SrtToAss {
+  private _content: string;
+  private _title: string;
+
+  constructor(content: string, title: string = "") {
+    this._content = content;
+    this._title = title;
+  }
+
+  getContentAsAss(): string {
+    const events: IAssEvent[] = [];
+    const blocks = this._content
+      .replace(/^\uFEFF/, '')
+      .replace(/\r\n?/g, '\n')
+      .split(/\n[ \t]*\n/);
+
+    for (let i = 0; i < blocks.length; i++) {
+      const lines = blocks[i].split('\n').filter(line => line.trim() !== '');
+
+      // The cue number is optional in practice.
+      let index = 0;
+      if (lines.length > 0 && lines[0].indexOf('-->') === -1) {
+        index++;
+      }
+      if (lines.length <= index) continue;
+
+      const timing = lines[index].split('-->');
+      if (timing.length !== 2) continue;
+
+      const start = parseTimestamp(timing[0]);
+      // Coordinates like `X1:100 X2:200 Y1:50 Y2:80` may follow the end time.
+      const end = parseTimestamp(timing[1].trim().split(/\s+/)[0]);
+      if (isNaN(start) || isNaN(end)) continue;
+
+      // ASS override tags like {\an8} are kept as they're commonly used in SRT.
+      events.push({
+        start: start,
+        end: end,
+        text: convertMarkup(lines.slice(index + 1).join('\n'))
+      });
+    }
+
+    return createAssScript(this._title, events);
+  }
+}
\ No newline at end of file
@@ -0,0 +1,121 @@
+import { IAssEvent, parseTimestamp, convertMarkup, createAssScript, getScriptPosition } from './ass';
+
+interface ICueSettings {
+  [name: string]: string;
+}
+
+function parseCueSettings(settings: string[]): ICueSettings {
+  const result: ICueSettings = {};
+  for (let i = 0; i < settings.length; i++) {
+    const index = settings[i].indexOf(':');
+    if (index <= 0) continue;
+
+    result[settings[i].substring(0, index)] = settings[i].substring(index + 1);
+  }
+  return result;
+}
+
+function parsePercentage(value: string|undefined): number {
+  if (!value || !/^\d+(\.\d+)?%$/.test(value)) return NaN;
+
+  return parseFloat(value);
+}
+
+/**
+ * Returns the override tags for the positioning cue settings.
+ */
+function getPositionTags(settings: ICueSettings): string {
+  const line = (settings['line'] || '').split(',')[0];
+  const position = (settings['position'] || '').split(',')[0];
+  const align = settings['align'];
+
+  let horizontal = 2;
+  if (align === 'start' || align === 'left') {
+    horizontal = 1;
+  } else if (align === 'end' || align === 'right') {
+    horizontal = 3;
+  }
+
+  let vertical = 0;
+  const linePercentage = parsePercentage(line);
+  if (!isNaN(linePercentage)) {
+    vertical = linePercentage < 50 ? 6 : 0;
+  } else if (line && !isNaN(parseInt(line, 10))) {
+    // Positive line numbers count from the top and negative from the bottom.
+    vertical = parseInt(line, 10) >= 0 ? 6 : 0;
+  }
+
+  let tags = "";
+  if (horizontal + vertical !== 2) {
+    tags += "\\an" + (horizontal + vertical);
+  }
+
+  const positionPercentage = parsePercentage(position);
+  if (!isNaN(positionPercentage) && !isNaN(linePercentage)) {
+    const pos = getScriptPosition(positionPercentage, linePercentage);
+    tags += "\\pos(" + pos.x + "," + pos.y + ")";
+  }
+
+  return tags ? "{" + tags + "}" : "";
+}
+
+export class VttToAss {
+  private _content: string;
+  private _title: string;
+
+  constructor(content: string, title: string = "") {
+    this._content = content;
+    this._title = title;
+  }
+
+  getContentAsAss(): string {
+    const events: IAssEvent[] = [];
+    const blocks = this._content
+      .replace(/^\uFEFF/, '')
+      .replace(/\r\n?/g, '\n')
+      .split(/\n[ \t]*\n/);
+
+    for (let i = 0; i < blocks.length; i++) {
+      const lines = blocks[i].split('\n');
+
+      // Skip the header, comments, style and region blocks.
+      if (/^(WEBVTT|NOTE|STYLE|REGION)\b/.test(lines[0])) continue;
+
+      let index = 0;
+      while (index < lines.length && lines[index].indexOf('-->') === -1) {
+        index++;
+      }
+      if (index >= lines.length) continue;
+
+      const timing = lines[index].split('-->');
+      const end = timing[1].trim().split(/\s+/);
+
+      const startTime = parseTimestamp(timing[0]);
+      const endTime = parseTimestamp(end[0]);
+      if (isNaN(startTime) || isNaN(endTime)) continue;
+
+      let text = lines.slice(index + 1).join('\n');
+
+      // The voice span contains the name of the speaker.
+      let name = "";
+      const voice = /<v(?:\.[^\s>]*)?\s+([^>]+)>/.exec(text);
+      if (voice) {
+        name = voice[1].trim();
+      }
+
+      // Remove the ruby text and the karaoke timestamps.
+      text = text
+        .replace(/<rt>[\s\S]*?<\/rt>/g, '')
+        .replace(/<\d[\d:.]*>/g, '');
+
+      events.push({
+        start: startTime,
+        end: endTime,
+        name: name,
+        text: getPositionTags(parseCueSettings(end.slice(1))) + convertMarkup(text)
+      });
+    }
+
+    return createAssScript(this._title, events);
+  }
+}
\ No newline at end of file
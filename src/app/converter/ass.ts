@@ -0,0 +1,326 @@
+import { padLeft, padRight } from '../utils/string';
+
+export interface IAssEvent {
+  start: number;
+  end: number;
+  style?: string;
+  name?: string;
+  text: string;
+}
+
+const PLAY_RES_X = 640;
+const PLAY_RES_Y = 360;
+
+/**
+ * Parses a timestamp like `01:02:03,456`, `01:02:03.456` or `02:03.456` into
+ * seconds. Returns NaN if the timestamp is invalid.
+ */
+export function parseTimestamp(timestamp: string): number {
+  const m = /^\s*(?:(\d+):)?(\d{1,2}):(\d{1,2})(?:[,.](\d{1,3}))?\s*$/.exec(timestamp);
+  if (!m) return NaN;
+
+  const hours = m[1] ? parseInt(m[1], 10) : 0;
+  const minutes = parseInt(m[2], 10);
+  const seconds = parseInt(m[3], 10);
+  const milliseconds = m[4] ? parseInt(padRight(m[4], 3), 10) : 0;
+
+  return hours*3600 + minutes*60 + seconds + milliseconds/1000;
+}
+
+/**
+ * Formats seconds as an ASS timestamp, e.g. `0:01:02.34`.
+ */
+export function formatTimestamp(time: number): string {
+  let centiseconds = Math.max(Math.round(time*100), 0);
+
+  const hours = Math.floor(centiseconds/360000);
+  centiseconds -= hours*360000;
+  const minutes = Math.floor(centiseconds/6000);
+  centiseconds -= minutes*6000;
+  const seconds = Math.floor(centiseconds/100);
+  centiseconds -= seconds*100;
+
+  return hours + ":" + padLeft(minutes, 2) + ":" + padLeft(seconds, 2) + "." + padLeft(centiseconds, 2);
+}
+
+/**
+ * Converts a CSS color like `#ff8000`, `#f80` or `red` to an ASS color.
+ * Returns undefined if the color isn't supported.
+ */
+export function convertColor(color: string): string|undefined {
+  const names: {[name: string]: string} = {
+    white: 'ffffff', black: '000000', red: 'ff0000', lime: '00ff00',
+    green: '008000', blue: '0000ff', yellow: 'ffff00', cyan: '00ffff',
+    aqua: '00ffff', magenta: 'ff00ff', fuchsia: 'ff00ff', gray: '808080',
+    grey: '808080', silver: 'c0c0c0', orange: 'ffa500'
+  };
+
+  let hex = color.trim().toLowerCase();
+  if (names.hasOwnProperty(hex)) {
+    hex = names[hex];
+  } else if (/^#[0-9a-f]{3}$/.test(hex)) {
+    hex = hex[1] + hex[1] + hex[2] + hex[2] + hex[3] + hex[3];
+  } else if (/^#[0-9a-f]{6}$/.test(hex)) {
+    hex = hex.substring(1);
+  } else {
+    return undefined;
+  }
+
+  // ASS colors are in the BGR order.
+  return "&H" + (hex.substring(4, 6) + hex.substring(2, 4) + hex.substring(0, 2)).toUpperCase() + "&";
+}
+
+function decodeEntities(text: string): string {
+  return text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&nbsp;/g, '\\h')
+    .replace(/&lrm;|&rlm;/g, '')
+    .replace(/&amp;/g, '&');
+}
+
+/**
+ * Converts the HTML-like markup of SRT and WebVTT into ASS override tags.
+ * Unsupported tags are removed.
+ */
+export function convertMarkup(text: string): string {
+  const colors: string[] = [];
+
+  text = text.replace(/<\s*(\/?)\s*([a-z0-9]+)([^>]*)>/gi, (tag: string, close: string, name: string, attributes: string) => {
+    name = name.toLowerCase();
+    switch (name) {
+      case 'b':
+      case 'i':
+      case 'u':
+      case 's':
+        return "{\\" + name + (close ? "0" : "1") + "}";
+      case 'font':
+        if (close) {
+          colors.pop();
+          return colors.length > 0 ? "{\\c" + colors[colors.length - 1] + "}" : "{\\c}";
+        }
+        const m = /color\s*=\s*["']?([^"'\s>]+)/i.exec(attributes);
+        const color = m ? convertColor(m[1]) : undefined;
+        if (!color) return "";
+        colors.push(color);
+        return "{\\c" + color + "}";
+      default:
+        return "";
+    }
+  });
+
+  return decodeEntities(text)
+    .replace(/\r?\n/g, '\\N');
+}
+
+/**
+ * Creates an ASS script with a single default style.
+ * @param title the title of the script.
+ * @param events the dialogue events.
+ */
+export function createAssScript(title: string, events: IAssEvent[]): string {
+  let output = '[Script Info]\n';
+  output += "Title: " + title + "\n";
+  output += "ScriptType: v4.00+\n";
+  output += "WrapStyle: 0\n";
+  output += "PlayResX: " + PLAY_RES_X + "\n";
+  output += "PlayResY: " + PLAY_RES_Y + "\n";
+  output += "ScaledBorderAndShadow: yes\n";
+  output += "\n";
+  output += "[V4+ Styles]\n";
+  output += "Format: Name, Fontname, Fontsize, PrimaryColour, SecondaryColour, OutlineColour, BackColour, Bold, Italic, Underline, StrikeOut, ScaleX, ScaleY, Spacing, Angle, BorderStyle, Outline, Shadow, Alignment, MarginL, MarginR, MarginV, Encoding\n";
+  output += "Style: Default, Arial, 24, &H00FFFFFF, &H000000FF, &H00000000, &H80000000, 0, 0, 0, 0, 100, 100, 0, 0, 1, 1.5, 0.5, 2, 20, 20, 20, 1\n";
+  output += "\n";
+  output += "[Events]\n";
+  output += "Format: Layer, Start, End, Style, Name, MarginL, MarginR, MarginV, Effect, Text\n";
+
+  for (let i = 0; i < events.length; i++) {
+    output += "Dialogue: 0";
+    output += ", " + formatTimestamp(events[i].start);
+    output += ", " + formatTimestamp(events[i].end);
+    output += ", " + (events[i].style || "Default");
+    output += ", " + (events[i].name || "");
+    output += ", 0, 0, 0, ";
+    output += ", " + events[i].text;
+    output += "\n";
+  }
+
+  return output;
+}
+
+/**
+ * Returns the position of a point given in percent of the video in the script
+ * resolution.
+ */
+export function getScriptPosition(x: number, y: number): { x: number, y: number } {
+  return {
+    x: Math.round(x/100*PLAY_RES_X),
+    y: Math.round(y/100*PLAY_RES_Y)
+  };
+}
+
+/**
+ * Formats seconds as a SRT or WebVTT timestamp, e.g. `00:01:02,345`.
+ * @param time the time in seconds.
+ * @param separator the separator of the milliseconds.
+ */
+export function formatTextTimestamp(time: number, separator: string): string {
+  let milliseconds = Math.max(Math.round(time*1000), 0);
+
+  const hours = Math.floor(milliseconds/3600000);
+  milliseconds -= hours*3600000;
+  const minutes = Math.floor(milliseconds/60000);
+  milliseconds -= minutes*60000;
+  const seconds = Math.floor(milliseconds/1000);
+  milliseconds -= seconds*1000;
+
+  return padLeft(hours, 2) + ":" + padLeft(minutes, 2) + ":" + padLeft(seconds, 2) + separator + padLeft(milliseconds, 3);
+}
+
+/**
+ * Parses the dialogue events of an ASS script sorted by their start time. The
+ * text still contains the override tags.
+ * @param content the ASS script.
+ */
+export function parseAssEvents(content: string): IAssEvent[] {
+  const events: IAssEvent[] = [];
+  const lines = content.split(/\r?\n/);
+
+  let section = "";
+  let format: string[] = [];
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].trim();
+    if (/^\[.*\]$/.test(line)) {
+      section = line.toLowerCase();
+      continue;
+    }
+    if (section !== "[events]") continue;
+
+    const index = line.indexOf(':');
+    if (index === -1) continue;
+
+    const type = line.substring(0, index);
+    const value = line.substring(index + 1);
+    if (type === "Format") {
+      format = value.split(',').map(name => name.trim());
+    } else if (type === "Dialogue" && format.length > 0) {
+      // The text is the last field and may contain commas itself.
+      const values = value.split(',');
+      const fields: {[name: string]: string} = {};
+      for (let j = 0; j < format.length; j++) {
+        fields[format[j]] = j === format.length - 1
+          ? values.slice(j).join(',')
+          : (values[j] || "").trim();
+      }
+
+      const start = parseTimestamp(fields["Start"] || "");
+      const end = parseTimestamp(fields["End"] || "");
+      if (isNaN(start) || isNaN(end)) continue;
+
+      events.push({
+        start: start,
+        end: end,
+        style: fields["Style"],
+        name: fields["Name"],
+        text: (fields["Text"] || "").replace(/^\s+/, '')
+      });
+    }
+  }
+
+  return events.sort((a, b) => a.start - b.start);
+}
+
+/**
+ * Returns the numpad alignment of the `\an` override tag in the text or
+ * undefined if there's none.
+ */
+export function getAssAlignment(text: string): number|undefined {
+  const m = /\{[^}]*\\an([1-9])[^}]*\}/.exec(text);
+  return m ? parseInt(m[1], 10) : undefined;
+}
+
+function escapeMarkup(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;');
+}
+
+/**
+ * Converts the text of an ASS event into the HTML-like markup of SRT and
+ * WebVTT. Bold, italic and underline are kept while drawings and any other
+ * override tags are removed.
+ * @param text the text of the ASS event.
+ * @param escape whether to escape the characters that are part of the markup.
+ */
+export function convertAssText(text: string, escape: boolean): string {
+  const tagNames = ['b', 'i', 'u'];
+  const state: {[name: string]: boolean} = { b: false, i: false, u: false };
+  let open: string[] = [];
+  let drawing = false;
+  let output = "";
+
+  const update = () => {
+    const next = tagNames.filter(name => state[name]);
+    if (next.join() === open.join()) return;
+
+    // Close and reopen every tag to keep them properly nested.
+    for (let i = open.length - 1; i >= 0; i--) {
+      output += "</" + open[i] + ">";
+    }
+    for (let i = 0; i < next.length; i++) {
+      output += "<" + next[i] + ">";
+    }
+    open = next;
+  };
+
+  const parts = text.split(/(\{[^}]*\})/);
+  for (let i = 0; i < parts.length; i++) {
+    const part = parts[i];
+    if (part.charAt(0) === '{' && part.charAt(part.length - 1) === '}') {
+      // Longer tags like \bord, \blur or \pos share their first letter.
+      const re = /\\(b|i|u|p)(\d*)(?![a-z(])/g;
+      let m: RegExpExecArray|null;
+      while (m = re.exec(part)) {
+        if (m[1] === 'p') {
+          drawing = parseInt(m[2], 10) > 0;
+        } else {
+          // Bold may also be a font weight like \b700.
+          state[m[1]] = m[2] !== '' && m[2] !== '0';
+        }
+      }
+      continue;
+    }
+    if (drawing || !part) continue;
+
+    update();
+
+    const segment = part
+      .replace(/\\[Nn]/g, '\n')
+      .replace(/\\h/g, ' ');
+    output += escape ? escapeMarkup(segment) : segment;
+  }
+
+  for (let name in state) {
+    state[name] = false;
+  }
+  update();
+
+  return output.replace(/[ \t]*\n[ \t]*/g, '\n').trim();
+}
+
+/**
+ * Returns whether the name of a style suggests that it's used for signs,
+ * songs or other typesetting instead of dialogue.
+ */
+export function isSignStyleName(name: string): boolean {
+  return /sign|song|kara|title|note|typeset|logo|(^|[^a-z])(op|ed)([^a-z]|$)/i.test(name);
+}
+
+/**
+ * Returns the plain text of an ASS event without any override tags or
+ * drawings.
+ */
+export function getAssPlainText(text: string): string {
+  return convertAssText(text, false).replace(/<\/?[biu]>/g, '');
+}
\ No newline at end of file
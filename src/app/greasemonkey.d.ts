@@ -0,0 +1,7 @@
+/**
+ * Calls the listener when a value has been changed, also by another tab. It's
+ * only provided by some userscript managers, e.g. Tampermonkey.
+ * @returns the ID of the listener.
+ */
+declare function GM_addValueChangeListener(name: string, listener: (name: string, oldValue: any, newValue: any, remote: boolean) => void): number;
+declare function GM_removeValueChangeListener(listenerId: number): void;
\ No newline at end of file
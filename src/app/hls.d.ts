@@ -0,0 +1,15 @@
+import 'hls.js';
+
+declare module 'hls.js' {
+  /**
+   * The attributes of a level in the manifest.
+   */
+  interface ILevelAttributes {
+    'FRAME-RATE'?: string;
+    [name: string]: string|undefined;
+  }
+
+  interface Level {
+    attrs?: ILevelAttributes;
+  }
+}
\ No newline at end of file
@@ -49,4 +49,22 @@ export function getMediaMetadataFromDOM(): IMediaMetadata|undefined {
     return JSON.parse(match[1]) as IMediaMetadata;
   }
   return undefined;
+}
+
+/**
+ * Highlights the media in the collection carousel as the one that's playing.
+ * @param mediaId the ID of the media.
+ */
+export function setCollectionCarouselCurrentMedia(mediaId: number): void {
+  const medias = document.querySelectorAll(".collection-carousel-media[media_id]");
+  for (let i = 0; i < medias.length; i++) {
+    const link = medias[i].querySelector(".collection-carousel-media-link");
+    if (!link) continue;
+
+    if (mediaId.toString() === medias[i].getAttribute("media_id")) {
+      link.classList.add("collection-carousel-media-link-current");
+    } else {
+      link.classList.remove("collection-carousel-media-link-current");
+    }
+  }
 }
\ No newline at end of file
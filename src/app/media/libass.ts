@@ -80,6 +80,10 @@ export class LibAss extends EventTarget {
       availableFonts: this.availableFonts,
       files: getFiles()
     });
+
+    if (this.video) {
+      this.setRate(this.video.playbackRate);
+    }
   }
   
   attach(video: HTMLVideoElement) {
@@ -100,6 +104,8 @@ export class LibAss extends EventTarget {
       .listen(document, 'msfullscreenchange', () => this.delayedResize())
       .listen(window, 'resize', () => this.delayedResize());
     this.resize();
+
+    this.setRate(video.playbackRate);
   }
 
   detach() {
@@ -152,6 +158,12 @@ export class LibAss extends EventTarget {
     this.resize();
   }
 
+  redraw() {
+    if (!this.worker || !this.video) return;
+
+    this.setCurrentTime(this.video.currentTime + this.getOffsetTime());
+  }
+
   getVideoRect(): IVideoRect {
     if (!this.video) return { width: 0, height: 0, x: 0, y: 0 };
     const videoRatio = this.video.videoWidth / this.video.videoHeight;
@@ -186,7 +198,7 @@ export class LibAss extends EventTarget {
   setOffsetTime(offsetTime: number) {
     this.offsetTime = offsetTime;
 
-    if (this.video) {
+    if (this.worker && this.video) {
       this.setCurrentTime(this.video.currentTime + this.getOffsetTime());
     }
   }
@@ -227,7 +239,8 @@ export class LibAss extends EventTarget {
   }
 
   private setRate(rate: number) {
-    if (!this.worker) throw new Error("Worker is not available.");
+    // The rate is sent again when the worker is initialized.
+    if (!this.worker) return;
     this.worker.postMessage({
       target: 'video',
       rate: rate
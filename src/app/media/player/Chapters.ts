@@ -0,0 +1,209 @@
+import { parseAssEvents } from '../../converter/ass';
+
+export type ChapterType = 'opening'|'episode'|'ending'|'preview';
+
+export interface IChapter {
+  type: ChapterType;
+
+  /**
+   * The start time in seconds.
+   */
+  start: number;
+
+  /**
+   * The end time in seconds.
+   */
+  end: number;
+}
+
+export interface IChapterSegment {
+  start: number;
+  end: number;
+}
+
+/**
+ * The times of the opening and the ending that have been detected or marked
+ * by the user.
+ */
+export interface IChapterMarks {
+  opening?: IChapterSegment;
+  ending?: IChapterSegment;
+}
+
+/**
+ * The length in seconds that's assumed for a song if only one end of it has
+ * been marked.
+ */
+export const DEFAULT_SONG_LENGTH = 90;
+
+/**
+ * The range of the length in seconds of the lyrics of an opening or ending.
+ */
+const MIN_SONG_LENGTH = 30;
+const MAX_SONG_LENGTH = 150;
+
+/**
+ * The maximum gap in seconds between two lines of the same song.
+ */
+const MAX_SONG_GAP = 20;
+
+/**
+ * The maximum length in seconds of the preview after the ending. Anything
+ * longer is treated as part of the episode.
+ */
+const MAX_PREVIEW_LENGTH = 60;
+
+/**
+ * Chapters that are shorter than this in seconds are merged into their
+ * neighbours.
+ */
+const MIN_CHAPTER_LENGTH = 1;
+
+/**
+ * Returns whether the name of a style suggests that it's used for the lyrics
+ * of the opening, the ending or another song.
+ */
+function getSongStyleType(style: string): 'opening'|'ending'|'song'|undefined {
+  if (/(^|[^a-z])op([^a-z]|$)|opening/i.test(style)) return 'opening';
+  if (/(^|[^a-z])ed([^a-z]|$)|ending/i.test(style)) return 'ending';
+  if (/song|kara|lyric/i.test(style)) return 'song';
+
+  return undefined;
+}
+
+interface ISongCluster {
+  start: number;
+  end: number;
+  opening: number;
+  ending: number;
+}
+
+/**
+ * Detects the opening and the ending by the styles of the song lyrics in an
+ * ASS script.
+ * @param content the ASS script.
+ */
+export function detectChapterMarks(content: string): IChapterMarks {
+  const events = parseAssEvents(content);
+  if (events.length === 0) return {};
+
+  let length = 0;
+  const clusters: ISongCluster[] = [];
+  for (let i = 0; i < events.length; i++) {
+    const event = events[i];
+    length = Math.max(length, event.end);
+
+    const type = getSongStyleType(event.style || "");
+    if (!type) continue;
+
+    let cluster = clusters[clusters.length - 1];
+    if (!cluster || event.start - cluster.end > MAX_SONG_GAP) {
+      cluster = { start: event.start, end: event.end, opening: 0, ending: 0 };
+      clusters.push(cluster);
+    }
+    cluster.end = Math.max(cluster.end, event.end);
+    if (type === 'opening') {
+      cluster.opening++;
+    } else if (type === 'ending') {
+      cluster.ending++;
+    }
+  }
+
+  const marks: IChapterMarks = {};
+  for (let i = 0; i < clusters.length; i++) {
+    const cluster = clusters[i];
+    const songLength = cluster.end - cluster.start;
+    if (songLength < MIN_SONG_LENGTH || songLength > MAX_SONG_LENGTH) continue;
+
+    const segment = { start: cluster.start, end: cluster.end };
+    if (cluster.opening > cluster.ending) {
+      marks.opening = marks.opening || segment;
+    } else if (cluster.ending > cluster.opening) {
+      marks.ending = segment;
+    } else if (cluster.start < length/3) {
+      // Songs without a hint in their style name are only used if they're
+      // close to the beginning or the end.
+      marks.opening = marks.opening || segment;
+    } else if (cluster.end > length*2/3) {
+      marks.ending = segment;
+    }
+  }
+
+  if (marks.opening && marks.ending && marks.ending.start < marks.opening.end) {
+    delete marks.ending;
+  }
+
+  return marks;
+}
+
+/**
+ * Returns the chapters of a video with the opening and ending. Returns an
+ * empty array if neither of them is known.
+ * @param duration the duration of the video in seconds.
+ * @param marks the opening and ending.
+ */
+export function getChapters(duration: number, marks: IChapterMarks): IChapter[] {
+  if (!(duration > 0) || (!marks.opening && !marks.ending)) return [];
+
+  const chapters: IChapter[] = [];
+  let time = 0;
+
+  const add = (type: ChapterType, segment: IChapterSegment) => {
+    let start = Math.max(segment.start, time);
+    const end = Math.min(segment.end, duration);
+    if (end - start < MIN_CHAPTER_LENGTH) return;
+
+    if (start - time < MIN_CHAPTER_LENGTH) {
+      start = time;
+    } else {
+      chapters.push({ type: 'episode', start: time, end: start });
+    }
+    chapters.push({ type: type, start: start, end: end });
+    time = end;
+  };
+
+  if (marks.opening) {
+    add('opening', marks.opening);
+  }
+  if (marks.ending) {
+    add('ending', marks.ending);
+  }
+  if (chapters.length === 0) return [];
+
+  if (duration - time < MIN_CHAPTER_LENGTH) {
+    chapters[chapters.length - 1].end = duration;
+  } else {
+    const last = chapters[chapters.length - 1];
+    const preview = last && last.type === 'ending' && duration - time <= MAX_PREVIEW_LENGTH;
+    chapters.push({ type: preview ? 'preview' : 'episode', start: time, end: duration });
+  }
+
+  return chapters;
+}
+
+/**
+ * Returns the chapter at a time or undefined if there's none.
+ */
+export function getChapterAt(chapters: IChapter[], time: number): IChapter|undefined {
+  return chapters.filter(chapter => chapter.start <= time && time < chapter.end)[0];
+}
+
+/**
+ * Returns whether the chapter is an opening or ending that can be skipped.
+ */
+export function isSkippableChapter(chapter: IChapter): boolean {
+  return chapter.type === 'opening' || chapter.type === 'ending';
+}
+
+export function getChapterLabel(type: ChapterType): string {
+  switch (type) {
+    case 'opening':
+      return "Opening";
+    case 'ending':
+      return "Ending";
+    case 'preview':
+      return "Preview";
+    default:
+      return "Episode";
+  }
+}
\ No newline at end of file
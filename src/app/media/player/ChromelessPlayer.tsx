@@ -1,16 +1,30 @@
 import { h, Component } from 'preact';
-import { ISource } from './ISource';
+import { ISource, ISourceLevel, ISourceAudioTrack } from './ISource';
 import { EventHandler } from '../../libs/events/EventHandler';
 import { BrowserEvent } from '../../libs/events/BrowserEvent';
 import { ISubtitleEngine } from '../subtitles/ISubtitleEngine';
 import { SubtitleContainerComponent } from './SubtitleContainerComponent';
 import { LibAssSubtitleEngine } from '../subtitles/LibAssSubtitleEngine';
+import { DomSubtitleEngine } from '../subtitles/DomSubtitleEngine';
 import { ISubtitleTrack } from '../subtitles/ISubtitleTrack';
+import { ISubtitleStyle, applySubtitleStyle } from '../subtitles/SubtitleStyle';
+import { AssMerger } from '../../converter/AssMerger';
 import { IRect } from '../../utils/rect';
-import { IPlayerApi, PlaybackState, PlaybackStateChangeEvent, TimeUpdateEvent, VolumeChangeEvent, DurationChangeEvent, SeekEvent } from './IPlayerApi';
+import { IPlayerApi, PlaybackState, PlaybackStateChangeEvent, TimeUpdateEvent, VolumeChangeEvent, DurationChangeEvent, SeekEvent, LevelChangeEvent, AudioTrackChangeEvent, RateChangeEvent, FrameStepEvent, SubtitleTrackChangeEvent, SubtitleDelayChangeEvent, SubtitleStyleChangeEvent, SecondarySubtitleTrackChangeEvent, SubtitleRendererChangeEvent, SubtitleRenderer } from './IPlayerApi';
 import { getFullscreenElement, requestFullscreen, exitFullscreen } from '../../utils/fullscreen';
+import { isPictureInPictureEnabled, isCaptureStreamSupported, requestPictureInPicture, exitPictureInPicture, getPictureInPictureElement } from '../../utils/pictureInPicture';
+import { PictureInPictureCompositor } from './PictureInPictureCompositor';
 import { ChromelessPlayerApi } from './ChromelessPlayerApi';
 
+interface IMergedSubtitleContent {
+  content: string;
+
+  /**
+   * The secondary track that has been merged into the content or -1.
+   */
+  secondary: number;
+}
+
 export interface IChromelessPlayerProps {
   src?: ISource;
   fullscreenElement?: HTMLElement;
@@ -22,15 +36,25 @@ export class ChromelessPlayer extends Component<IChromelessPlayerProps, {}> {
   private _videoElement: HTMLVideoElement;
 
   private _source: ISource|undefined = undefined;
-  private _subtitleEngine = new LibAssSubtitleEngine();
+  private _subtitleEngine: ISubtitleEngine = new LibAssSubtitleEngine();
+  private _subtitleRenderer: SubtitleRenderer = 'libass';
+  private _subtitleEngineHandler = new EventHandler(this);
   private _subtitleTracks: ISubtitleTrack[] = [];
   private _currentSubtitleTrack: number = -1;
+  private _secondarySubtitleTrack: number = -1;
+
+  /**
+   * The content of the current subtitle track without the style applied.
+   */
+  private _subtitleContent: string|undefined = undefined;
+  private _subtitleStyle: ISubtitleStyle = {};
 
   private _state: PlaybackState = PlaybackState.UNSTARTED;
   private _preferedState: PlaybackState|undefined = PlaybackState.PLAYING;
   private _forcedPause: boolean = false;
 
   private _handler = new EventHandler(this);
+  private _sourceHandler = new EventHandler(this);
 
   private _fullscreenElement: HTMLElement|undefined;
 
@@ -38,8 +62,17 @@ export class ChromelessPlayer extends Component<IChromelessPlayerProps, {}> {
 
   private _subtitleLoading: boolean = false;
   private _lastFullscreenState: boolean = false;
+  private _lastPictureInPictureState: boolean = false;
+
+  /**
+   * The compositor of the video and the subtitles while they're shown in
+   * picture-in-picture.
+   */
+  private _compositor: PictureInPictureCompositor|undefined = undefined;
+  private _compositorHandler = new EventHandler(this);
 
   private _duration: number = NaN;
+  private _defaultFrameRate: number = 24000/1001;
 
   constructor(props: IChromelessPlayerProps) {
     super(props);
@@ -171,6 +204,10 @@ export class ChromelessPlayer extends Component<IChromelessPlayerProps, {}> {
   private _onVolumeChange() {
     this._api.dispatchEvent(new VolumeChangeEvent(this.getVolume(), this.isMuted()));
   }
+
+  private _onRateChange() {
+    this._api.dispatchEvent(new RateChangeEvent(this.getPlaybackRate()));
+  }
   
   private _onProgress() {
     this._api.dispatchEvent('progress');
@@ -181,6 +218,10 @@ export class ChromelessPlayer extends Component<IChromelessPlayerProps, {}> {
   }
 
   private _onSeeked() {
+    if (this._state !== PlaybackState.PLAYING) {
+      this._subtitleEngine.redraw();
+    }
+
     if (this._forcedPause) {
       this._videoElement.pause();
     } else {
@@ -188,6 +229,18 @@ export class ChromelessPlayer extends Component<IChromelessPlayerProps, {}> {
     }
   }
 
+  private _onLevelsChange() {
+    this._api.dispatchEvent('levelschange');
+  }
+
+  private _onLevelSwitch() {
+    this._api.dispatchEvent('levelswitch');
+  }
+
+  private _onAudioTracksChange() {
+    this._api.dispatchEvent('audiotrackschange');
+  }
+
   private _onFullscreenChange() {
     const fullscreen = this.isFullscreen();
     if (this._lastFullscreenState === fullscreen) return;
@@ -377,6 +430,33 @@ export class ChromelessPlayer extends Component<IChromelessPlayerProps, {}> {
     return value;
   }
 
+  setDefaultFrameRate(frameRate: number): void {
+    this._defaultFrameRate = frameRate;
+  }
+
+  getFrameRate(): number {
+    const id = this.getCurrentLevel();
+    const level = this.getLevels().filter(level => level.id === id)[0];
+    if (level && level.frameRate > 0) {
+      return level.frameRate;
+    }
+    return this._defaultFrameRate;
+  }
+
+  stepFrame(frames: number): void {
+    const frameDuration = 1/this.getFrameRate();
+
+    // Seek to the middle of the frame so that rounding errors won't display
+    // the neighbouring frame.
+    const frame = Math.floor(this._videoElement.currentTime/frameDuration) + frames;
+    const time = Math.min(Math.max((frame + 0.5)*frameDuration, 0), this.getDuration());
+
+    this._videoElement.currentTime = time;
+    this._api.dispatchEvent(new FrameStepEvent(time));
+    this._api.dispatchEvent(new SeekEvent(time));
+    this._api.dispatchEvent(new TimeUpdateEvent(time));
+  }
+
   setVolume(volume: number): void {
     this._videoElement.volume = volume;
 
@@ -397,6 +477,16 @@ export class ChromelessPlayer extends Component<IChromelessPlayerProps, {}> {
     }
   }
   
+  setPlaybackRate(rate: number): void {
+    // The default playback rate is used when a new source is loaded.
+    this._videoElement.defaultPlaybackRate = rate;
+    this._videoElement.playbackRate = rate;
+  }
+
+  getPlaybackRate(): number {
+    return this._videoElement.playbackRate;
+  }
+
   mute(): void {
     this.setMuted(true);
   }
@@ -440,6 +530,95 @@ export class ChromelessPlayer extends Component<IChromelessPlayerProps, {}> {
     }
   }
 
+  isPictureInPictureEnabled(): boolean {
+    return isPictureInPictureEnabled();
+  }
+
+  isPictureInPicture(): boolean {
+    const element = getPictureInPictureElement();
+    if (!element) return false;
+
+    return element === this._videoElement
+      || (!!this._compositor && element === this._compositor.getStreamElement());
+  }
+
+  /**
+   * Shows the video in picture-in-picture. The subtitles are composited onto
+   * the video if they're displayed.
+   */
+  async enterPictureInPicture(): Promise<void> {
+    if (this.isPictureInPicture() || !this.isPictureInPictureEnabled()) return;
+
+    try {
+      if (this._currentSubtitleTrack !== -1 && isCaptureStreamSupported()) {
+        const compositor = this._createCompositor();
+        await compositor.start();
+        await requestPictureInPicture(compositor.getStreamElement());
+      } else {
+        await requestPictureInPicture(this._videoElement);
+      }
+    } catch (e) {
+      console.error(e);
+      this._disposeCompositor();
+    }
+  }
+
+  exitPictureInPicture(): void {
+    if (!this.isPictureInPicture()) return;
+
+    exitPictureInPicture()
+      .catch(() => {
+        // The window has already been closed.
+      });
+  }
+
+  togglePictureInPicture(): void {
+    if (this.isPictureInPicture()) {
+      this.exitPictureInPicture();
+    } else {
+      this.enterPictureInPicture();
+    }
+  }
+
+  private _createCompositor(): PictureInPictureCompositor {
+    this._disposeCompositor();
+
+    const drawSubtitles = (context: CanvasRenderingContext2D, width: number, height: number) => {
+      if (this._currentSubtitleTrack !== -1 && !this._subtitleLoading) {
+        this._subtitleEngine.draw(context, width, height);
+      }
+    };
+    const compositor = new PictureInPictureCompositor(this._videoElement, drawSubtitles);
+    this._compositorHandler
+      .listen(compositor, 'play', this.playVideo, false)
+      .listen(compositor, 'pause', this.pauseVideo, false)
+      .listen(compositor.getStreamElement(), 'enterpictureinpicture', this._onPictureInPictureChange, false)
+      .listen(compositor.getStreamElement(), 'leavepictureinpicture', this._onPictureInPictureChange, false);
+
+    this._compositor = compositor;
+    return compositor;
+  }
+
+  private _disposeCompositor() {
+    if (!this._compositor) return;
+
+    this._compositorHandler.removeAll();
+    this._compositor.dispose();
+    this._compositor = undefined;
+  }
+
+  private _onPictureInPictureChange() {
+    const pictureInPicture = this.isPictureInPicture();
+    if (!pictureInPicture && this._compositor) {
+      this._disposeCompositor();
+    }
+
+    if (this._lastPictureInPictureState === pictureInPicture) return;
+    this._lastPictureInPictureState = pictureInPicture;
+
+    this._api.dispatchEvent('pictureinpicturechange');
+  }
+
   /**
    * Set the video source.
    * @param source the video source.
@@ -450,6 +629,12 @@ export class ChromelessPlayer extends Component<IChromelessPlayerProps, {}> {
     }
     this._source = source;
 
+    this._sourceHandler.removeAll();
+    this._sourceHandler
+      .listen(this._source, 'levelschange', this._onLevelsChange, false)
+      .listen(this._source, 'levelswitch', this._onLevelSwitch, false)
+      .listen(this._source, 'audiotrackschange', this._onAudioTracksChange, false);
+
     this._source.attach(this._videoElement);
 
     this._videoElement.currentTime = startTime;
@@ -459,38 +644,131 @@ export class ChromelessPlayer extends Component<IChromelessPlayerProps, {}> {
 
   removeVideoSource(): void {
     if (this._source) {
+      this._sourceHandler.removeAll();
       this._source.detach();
       this._source = undefined;
+
+      this._api.dispatchEvent('levelschange');
+      this._api.dispatchEvent('audiotrackschange');
     }
   }
 
-  async setSubtitleTrack(index: number): Promise<any> {
+  getLevels(): ISourceLevel[] {
+    if (!this._source) return [];
+    return this._source.getLevels();
+  }
+
+  getLevel(): number {
+    if (!this._source || this._source.isAutoLevel()) return -1;
+    return this._source.getLevel();
+  }
+
+  getCurrentLevel(): number {
+    if (!this._source) return -1;
+    return this._source.getLevel();
+  }
+
+  setLevel(id: number): void {
+    if (!this._source) return;
+    this._source.setLevel(id);
+
+    this._api.dispatchEvent(new LevelChangeEvent(id));
+  }
+
+  getAudioTracks(): ISourceAudioTrack[] {
+    if (!this._source) return [];
+    return this._source.getAudioTracks();
+  }
+
+  getAudioTrack(): number {
+    if (!this._source) return -1;
+    return this._source.getAudioTrack();
+  }
+
+  setAudioTrack(id: number): void {
+    if (!this._source) return;
+    this._source.setAudioTrack(id);
+
+    this._api.dispatchEvent(new AudioTrackChangeEvent(id));
+  }
+
+  async setSubtitleTrack(index: number, manual: boolean = false): Promise<any> {
     this._currentSubtitleTrack = index;
+    this._subtitleContent = undefined;
     if (index === -1) {
       this._subtitleLoading = false;
       this._subtitleEngine.detach();
-      this._api.dispatchEvent('subtitletrackchange');
+      this._api.dispatchEvent(new SubtitleTrackChangeEvent(index, manual));
     } else {
       this._subtitleLoading = true;
       if (this._state === PlaybackState.PLAYING) {
         this._videoElement.pause();
       }
-      const content = await this._subtitleTracks[index].getContent();
-      if (this._currentSubtitleTrack === index) {
-        this._subtitleEngine.setTrack(content);
+      try {
+        const subtitle = await this._getSubtitleContent(index, this._secondarySubtitleTrack);
+        if (this._currentSubtitleTrack !== index) return;
+
+        // Load the subtitles again if the secondary track changed meanwhile.
+        if (this._secondarySubtitleTrack !== subtitle.secondary) {
+          return await this.setSubtitleTrack(index, manual);
+        }
+
+        this._subtitleContent = subtitle.content;
+        this._subtitleEngine.setTrack(applySubtitleStyle(subtitle.content, this._subtitleStyle));
         this._subtitleEngine.attach(this._videoElement);
         this._subtitleLoading = false;
 
         this._onCanplay();
 
-        this._api.dispatchEvent('subtitletrackchange');
+        this._api.dispatchEvent(new SubtitleTrackChangeEvent(index, manual));
+      } catch (e) {
+        // Turn the subtitles off if they can't be loaded.
+        if (this._currentSubtitleTrack === index) {
+          this._currentSubtitleTrack = -1;
+          this._subtitleEngine.detach();
+          this._api.dispatchEvent(new SubtitleTrackChangeEvent(-1, false));
+        }
+      } finally {
+        // Don't keep the video paused when no track is loading anymore.
+        if (this._subtitleLoading && this._currentSubtitleTrack === -1) {
+          this._subtitleLoading = false;
+          this._onCanplay();
+        }
       }
     }
   }
 
+  /**
+   * Returns the content of a subtitle track merged with the secondary track
+   * and the index of the secondary track that has been merged. The secondary
+   * track is turned off if it can't be loaded.
+   */
+  private async _getSubtitleContent(index: number, secondary: number): Promise<IMergedSubtitleContent> {
+    const content = await this._subtitleTracks[index].getContent();
+    if (secondary === -1 || secondary === index || !this._subtitleTracks[secondary]) {
+      return { content: content, secondary: secondary };
+    }
+
+    try {
+      const secondaryContent = await this._subtitleTracks[secondary].getContent();
+      return {
+        content: new AssMerger(content, secondaryContent).getContentAsAss(),
+        secondary: secondary
+      };
+    } catch (e) {
+      if (this._secondarySubtitleTrack === secondary) {
+        this._secondarySubtitleTrack = -1;
+        this._api.dispatchEvent(new SecondarySubtitleTrackChangeEvent(-1, false));
+      }
+      return { content: content, secondary: -1 };
+    }
+  }
+
   setSubtitleTracks(tracks: ISubtitleTrack[]): void {
     this._subtitleTracks = tracks;
     this._currentSubtitleTrack = -1;
+    this._secondarySubtitleTrack = -1;
+    this._subtitleContent = undefined;
 
     this._subtitleEngine.detach();
 
@@ -500,13 +778,140 @@ export class ChromelessPlayer extends Component<IChromelessPlayerProps, {}> {
     }
     
     this._api.dispatchEvent('subtitletrackschange');
-    this._api.dispatchEvent('subtitletrackchange');
+    this._api.dispatchEvent(new SubtitleTrackChangeEvent(-1, false));
+    this._api.dispatchEvent(new SecondarySubtitleTrackChangeEvent(-1, false));
   }
 
   getSubtitleTracks(): ISubtitleTrack[] {
     return this._subtitleTracks;
   }
 
+  getSubtitleTrack(): number {
+    return this._currentSubtitleTrack;
+  }
+
+  /**
+   * Set the subtitle track that's displayed at the top together with the
+   * current subtitle track.
+   * @param index the index of the subtitle track or -1 to disable it.
+   * @param manual whether the track was selected by the user.
+   */
+  async setSecondarySubtitleTrack(index: number, manual: boolean = false): Promise<void> {
+    this._secondarySubtitleTrack = index;
+    this._api.dispatchEvent(new SecondarySubtitleTrackChangeEvent(index, manual));
+
+    // The current subtitles are merged with the secondary track when they've
+    // finished loading.
+    const current = this._currentSubtitleTrack;
+    if (current === -1 || this._subtitleLoading) return;
+
+    let subtitle: IMergedSubtitleContent;
+    try {
+      subtitle = await this._getSubtitleContent(current, index);
+    } catch (e) {
+      // The primary track has failed, it's loaded again when it's selected.
+      return;
+    }
+    if (this._currentSubtitleTrack !== current || this._secondarySubtitleTrack !== subtitle.secondary || this._subtitleLoading) return;
+
+    this._subtitleContent = subtitle.content;
+    this._subtitleEngine.setTrack(applySubtitleStyle(subtitle.content, this._subtitleStyle));
+    this._subtitleEngine.redraw();
+  }
+
+  getSecondarySubtitleTrack(): number {
+    return this._secondarySubtitleTrack;
+  }
+
+  private _listenSubtitleEngine() {
+    this._subtitleEngineHandler.removeAll();
+    this._subtitleEngineHandler
+      .listen(this._subtitleEngine, 'resize', this.resizeSubtitle, false)
+      .listen(this._subtitleEngine, 'error', this._onSubtitleEngineError, false);
+  }
+
+  private _onSubtitleEngineError() {
+    if (this._subtitleRenderer === 'basic') return;
+
+    this.setSubtitleRenderer('basic');
+  }
+
+  /**
+   * Set the engine that renders the subtitles.
+   * @param renderer the subtitle renderer.
+   * @param manual whether the renderer was selected by the user.
+   */
+  setSubtitleRenderer(renderer: SubtitleRenderer, manual: boolean = false): void {
+    if (this._subtitleRenderer === renderer) return;
+
+    const previous = this._subtitleEngine;
+    const engine: ISubtitleEngine = renderer === 'basic'
+      ? new DomSubtitleEngine()
+      : new LibAssSubtitleEngine();
+    engine.setDelay(previous.getDelay());
+
+    previous.detach();
+    previous.dispose();
+
+    this._subtitleRenderer = renderer;
+    this._subtitleEngine = engine;
+    if (this._videoElement) {
+      this._listenSubtitleEngine();
+    }
+
+    if (this._subtitleContent !== undefined) {
+      engine.setTrack(applySubtitleStyle(this._subtitleContent, this._subtitleStyle));
+      engine.attach(this._videoElement);
+    }
+
+    // Replace the element of the previous engine.
+    this.forceUpdate();
+    this.resizeSubtitle();
+
+    this._api.dispatchEvent(new SubtitleRendererChangeEvent(renderer, manual));
+  }
+
+  getSubtitleRenderer(): SubtitleRenderer {
+    return this._subtitleRenderer;
+  }
+
+  setSubtitleDelay(delay: number, manual: boolean = false): void {
+    // Round to milliseconds to avoid floating point errors when stepping.
+    delay = Math.round(delay*1000)/1000;
+    if (delay === this._subtitleEngine.getDelay()) return;
+
+    this._subtitleEngine.setDelay(delay);
+    this._api.dispatchEvent(new SubtitleDelayChangeEvent(delay, manual));
+  }
+
+  getSubtitleDelay(): number {
+    return this._subtitleEngine.getDelay();
+  }
+
+  setSubtitleStyle(style: ISubtitleStyle, manual: boolean = false): void {
+    this._subtitleStyle = style;
+
+    // Render the current subtitles again with the new style.
+    if (this._subtitleContent !== undefined) {
+      this._subtitleEngine.setTrack(applySubtitleStyle(this._subtitleContent, style));
+      this._subtitleEngine.redraw();
+    }
+
+    this._api.dispatchEvent(new SubtitleStyleChangeEvent(style, manual));
+  }
+
+  getSubtitleStyle(): ISubtitleStyle {
+    return this._subtitleStyle;
+  }
+
+  addSubtitleTrack(track: ISubtitleTrack): number {
+    this._subtitleTracks = this._subtitleTracks.concat([track]);
+
+    this._api.dispatchEvent('subtitletrackschange');
+
+    return this._subtitleTracks.length - 1;
+  }
+
   componentDidMount() {
     this._handler
       .listen(this._videoElement, 'playing', this._onPlaying, false)
@@ -522,12 +927,15 @@ export class ChromelessPlayer extends Component<IChromelessPlayerProps, {}> {
       .listen(this._videoElement, 'durationchange', this._onDurationChange, false)
       .listen(this._videoElement, 'progress', this._onProgress, false)
       .listen(this._videoElement, 'volumechange', this._onVolumeChange, false)
-      .listen(this._subtitleEngine, 'resize', this.resizeSubtitle, false)
+      .listen(this._videoElement, 'ratechange', this._onRateChange, false)
+      .listen(this._videoElement, 'enterpictureinpicture', this._onPictureInPictureChange, false)
+      .listen(this._videoElement, 'leavepictureinpicture', this._onPictureInPictureChange, false)
       .listen(document, "fullscreenchange", this._onFullscreenChange)
       .listen(document, "webkitfullscreenchange", this._onFullscreenChange)
       .listen(document, "mozfullscreenchange", this._onFullscreenChange)
       .listen(document, "msfullscreenchange", this._onFullscreenChange)
       .listen(window, "resize", this.resize, { 'passive': true });
+    this._listenSubtitleEngine();
     this._subtitleEngine.attach(this._videoElement);
     if (this._source) {
       this.setVideoSource(this._source, undefined);
@@ -540,7 +948,10 @@ export class ChromelessPlayer extends Component<IChromelessPlayerProps, {}> {
     if (this._source) {
       this._source.detach();
     }
+    this._sourceHandler.removeAll();
+    this._subtitleEngineHandler.removeAll();
     this._handler.removeAll();
+    this._disposeCompositor();
   }
   
   render(): JSX.Element {
@@ -1,13 +1,21 @@
-import { IPlayerApi, PlaybackState, IVideoDetail, NextVideoEvent } from './IPlayerApi';
+import { IPlayerApi, PlaybackState, IVideoDetail, NextVideoEvent, SubtitleRenderer, ChaptersChangeEvent, ChapterMarksChangeEvent, AutoSkipChangeEvent, AutoplayCountdownChangeEvent, QueueChangeEvent } from './IPlayerApi';
 import { EventTarget } from '../../libs/events/EventTarget';
 import { ISubtitleTrack } from '../subtitles/ISubtitleTrack';
+import { ISubtitleStyle } from '../subtitles/SubtitleStyle';
 import { ChromelessPlayer } from './ChromelessPlayer';
 import { isFullscreenEnabled } from '../../utils/fullscreen';
+import { ISourceLevel, ISourceAudioTrack } from './ISource';
+import { IChapter, IChapterMarks } from './Chapters';
 
 export class ChromelessPlayerApi extends EventTarget implements IPlayerApi {
   private _player: ChromelessPlayer|undefined;
   private _nextVideo: IVideoDetail|undefined = undefined;
+  private _queue: IVideoDetail[] = [];
   private _large: boolean = false;
+  private _chapters: IChapter[] = [];
+  private _chapterMarks: IChapterMarks = {};
+  private _autoSkip: boolean = false;
+  private _autoplayCountdown: number = 0;
 
   constructor(
     player?: ChromelessPlayer
@@ -37,6 +45,58 @@ export class ChromelessPlayerApi extends EventTarget implements IPlayerApi {
     this.dispatchEvent('nextvideochange');
   }
 
+  getQueue(): IVideoDetail[] {
+    return this._queue;
+  }
+
+  setQueue(queue: IVideoDetail[]): void {
+    this._queue = queue;
+
+    this.dispatchEvent(new QueueChangeEvent(queue));
+  }
+
+  getChapters(): IChapter[] {
+    return this._chapters;
+  }
+
+  setChapters(chapters: IChapter[]): void {
+    this._chapters = chapters;
+
+    this.dispatchEvent(new ChaptersChangeEvent(chapters));
+  }
+
+  getChapterMarks(): IChapterMarks {
+    return this._chapterMarks;
+  }
+
+  setChapterMarks(marks: IChapterMarks, manual: boolean = false): void {
+    this._chapterMarks = marks;
+
+    this.dispatchEvent(new ChapterMarksChangeEvent(marks, manual));
+  }
+
+  isAutoSkip(): boolean {
+    return this._autoSkip;
+  }
+
+  setAutoSkip(autoSkip: boolean): void {
+    if (this._autoSkip === autoSkip) return;
+    this._autoSkip = autoSkip;
+
+    this.dispatchEvent(new AutoSkipChangeEvent(autoSkip));
+  }
+
+  getAutoplayCountdown(): number {
+    return this._autoplayCountdown;
+  }
+
+  setAutoplayCountdown(countdown: number): void {
+    if (this._autoplayCountdown === countdown) return;
+    this._autoplayCountdown = countdown;
+
+    this.dispatchEvent(new AutoplayCountdownChangeEvent(countdown));
+  }
+
   setChromelessPlayer(player: ChromelessPlayer) {
     this._player = player;
   }
@@ -102,6 +162,16 @@ export class ChromelessPlayerApi extends EventTarget implements IPlayerApi {
     return this._player.getBufferedTime();
   }
 
+  getFrameRate(): number {
+    if (!this._player) throw new Error("Not initialized");
+    return this._player.getFrameRate();
+  }
+
+  stepFrame(frames: number): void {
+    if (!this._player) throw new Error("Not initialized");
+    this._player.stepFrame(frames);
+  }
+
   setVolume(volume: number): void {
     if (!this._player) throw new Error("Not initialized");
     this._player.setVolume(volume);
@@ -132,6 +202,16 @@ export class ChromelessPlayerApi extends EventTarget implements IPlayerApi {
     return this._player.isMuted();
   }
 
+  setPlaybackRate(rate: number): void {
+    if (!this._player) throw new Error("Not initialized");
+    this._player.setPlaybackRate(rate);
+  }
+
+  getPlaybackRate(): number {
+    if (!this._player) throw new Error("Not initialized");
+    return this._player.getPlaybackRate();
+  }
+
   isFullscreenEnabled(): boolean {
     return isFullscreenEnabled();
   }
@@ -156,13 +236,123 @@ export class ChromelessPlayerApi extends EventTarget implements IPlayerApi {
     return this._player.isFullscreen();
   }
 
+  isPictureInPictureEnabled(): boolean {
+    if (!this._player) throw new Error("Not initialized");
+    return this._player.isPictureInPictureEnabled();
+  }
+
+  enterPictureInPicture(): void {
+    if (!this._player) throw new Error("Not initialized");
+    this._player.enterPictureInPicture();
+  }
+
+  exitPictureInPicture(): void {
+    if (!this._player) throw new Error("Not initialized");
+    this._player.exitPictureInPicture();
+  }
+
+  togglePictureInPicture(): void {
+    if (!this._player) throw new Error("Not initialized");
+    this._player.togglePictureInPicture();
+  }
+
+  isPictureInPicture(): boolean {
+    if (!this._player) throw new Error("Not initialized");
+    return this._player.isPictureInPicture();
+  }
+
   getSubtitlesTracks(): ISubtitleTrack[] {
     if (!this._player) throw new Error("Not initialized");
     return this._player.getSubtitleTracks();
   }
 
+  getSubtitleTrack(): number {
+    if (!this._player) throw new Error("Not initialized");
+    return this._player.getSubtitleTrack();
+  }
+
+  addSubtitleTrack(track: ISubtitleTrack): number {
+    if (!this._player) throw new Error("Not initialized");
+    return this._player.addSubtitleTrack(track);
+  }
+
   setSubtitleTrack(index: number): void {
     if (!this._player) throw new Error("Not initialized");
-    this._player.setSubtitleTrack(index);
+    this._player.setSubtitleTrack(index, true);
+  }
+
+  getSecondarySubtitleTrack(): number {
+    if (!this._player) throw new Error("Not initialized");
+    return this._player.getSecondarySubtitleTrack();
+  }
+
+  setSecondarySubtitleTrack(index: number): void {
+    if (!this._player) throw new Error("Not initialized");
+    this._player.setSecondarySubtitleTrack(index, true);
+  }
+
+  setSubtitleDelay(delay: number): void {
+    if (!this._player) throw new Error("Not initialized");
+    this._player.setSubtitleDelay(delay, true);
+  }
+
+  getSubtitleDelay(): number {
+    if (!this._player) throw new Error("Not initialized");
+    return this._player.getSubtitleDelay();
+  }
+
+  setSubtitleRenderer(renderer: SubtitleRenderer): void {
+    if (!this._player) throw new Error("Not initialized");
+    this._player.setSubtitleRenderer(renderer, true);
+  }
+
+  getSubtitleRenderer(): SubtitleRenderer {
+    if (!this._player) throw new Error("Not initialized");
+    return this._player.getSubtitleRenderer();
+  }
+
+  setSubtitleStyle(style: ISubtitleStyle): void {
+    if (!this._player) throw new Error("Not initialized");
+    this._player.setSubtitleStyle(style, true);
+  }
+
+  getSubtitleStyle(): ISubtitleStyle {
+    if (!this._player) throw new Error("Not initialized");
+    return this._player.getSubtitleStyle();
+  }
+
+  getLevels(): ISourceLevel[] {
+    if (!this._player) throw new Error("Not initialized");
+    return this._player.getLevels();
+  }
+
+  getLevel(): number {
+    if (!this._player) throw new Error("Not initialized");
+    return this._player.getLevel();
+  }
+
+  getCurrentLevel(): number {
+    if (!this._player) throw new Error("Not initialized");
+    return this._player.getCurrentLevel();
+  }
+
+  setLevel(id: number): void {
+    if (!this._player) throw new Error("Not initialized");
+    this._player.setLevel(id);
+  }
+
+  getAudioTracks(): ISourceAudioTrack[] {
+    if (!this._player) throw new Error("Not initialized");
+    return this._player.getAudioTracks();
+  }
+
+  getAudioTrack(): number {
+    if (!this._player) throw new Error("Not initialized");
+    return this._player.getAudioTrack();
+  }
+
+  setAudioTrack(id: number): void {
+    if (!this._player) throw new Error("Not initialized");
+    this._player.setAudioTrack(id);
   }
 }
\ No newline at end of file
@@ -1,8 +1,11 @@
 import { h, Component } from "preact";
 import { EventHandler } from "../../libs/events/EventHandler";
+import { parseAndFormatTime } from "../../utils/time";
 
 export interface ICuedThumbnailComponentProps {
   onClick?: Function;
+  onResume?: () => void;
+  onStartOver?: () => void;
 }
 
 export class CuedThumbnailComponent extends Component<ICuedThumbnailComponentProps, {}> {
@@ -11,6 +14,11 @@ export class CuedThumbnailComponent extends Component<ICuedThumbnailComponentPro
 
   private _imageElement: HTMLElement;
   private _buttonElement: HTMLElement;
+  private _resumeElement: HTMLElement;
+  private _resumeButtonElement: HTMLElement;
+
+  private _buttonVisible: boolean = false;
+  private _resumeTime: number|undefined = undefined;
 
   private _handler = new EventHandler(this);
 
@@ -35,7 +43,28 @@ export class CuedThumbnailComponent extends Component<ICuedThumbnailComponentPro
   }
 
   setButtonVisible(visible: boolean): void {
-    this._buttonElement.style.display = visible ? "" : "none";
+    this._buttonVisible = visible;
+    this._updateButtons();
+  }
+
+  /**
+   * Set the time to offer resuming from. The large play button is replaced by
+   * a resume prompt while it's set.
+   * @param time the time in seconds or undefined to hide the prompt.
+   */
+  setResumeTime(time: number|undefined): void {
+    this._resumeTime = time;
+    if (time !== undefined) {
+      this._resumeButtonElement.textContent = "Resume from " + parseAndFormatTime(time);
+    }
+    this._updateButtons();
+  }
+
+  private _updateButtons(): void {
+    const resume = this._buttonVisible && this._resumeTime !== undefined;
+
+    this._buttonElement.style.display = this._buttonVisible && !resume ? "" : "none";
+    this._resumeElement.style.display = resume ? "" : "none";
   }
 
   setVisible(visible: boolean): void {
@@ -66,7 +95,21 @@ export class CuedThumbnailComponent extends Component<ICuedThumbnailComponentPro
   render(): JSX.Element {
     const imageRef = (el: HTMLElement) => this._imageElement = el;
     const buttonRef = (el: HTMLElement) => this._buttonElement = el;
+    const resumeRef = (el: HTMLElement) => this._resumeElement = el;
+    const resumeButtonRef = (el: HTMLElement) => this._resumeButtonElement = el;
     const onClick = () => this.props.onClick && this.props.onClick();
+    const onResumeClick = (e: Event) => {
+      e.stopPropagation();
+      if (this.props.onResume) {
+        this.props.onResume();
+      }
+    };
+    const onStartOverClick = (e: Event) => {
+      e.stopPropagation();
+      if (this.props.onStartOver) {
+        this.props.onStartOver();
+      }
+    };
     return (
       <div class="html5-video-cued-thumbnail-overlay" onClick={onClick}>
         <div class="html5-video-cued-thumbnail-overlay-image" ref={imageRef}></div>
@@ -76,6 +119,10 @@ export class CuedThumbnailComponent extends Component<ICuedThumbnailComponentPro
             <path d="M 45,24 27,14 27,34" fill="#fff"></path>
           </svg>
         </button>
+        <div class="chrome-resume-prompt" style="display: none" ref={resumeRef}>
+          <button class="chrome-button chrome-resume-button" onClick={onResumeClick} ref={resumeButtonRef}></button>
+          <button class="chrome-button chrome-resume-button" onClick={onStartOverClick}>Start over</button>
+        </div>
       </div>
     );
   }
@@ -1,10 +1,11 @@
 import * as Hls from 'hls.js';
 import { ISource, ISourceLevel, ISourceAudioTrack } from './ISource';
-import { Disposable } from '../../libs/disposable/Disposable';
+import { EventTarget } from '../../libs/events/EventTarget';
 import { getPlaylistLoader } from '../../playlistLoader';
 
-export class HlsSource extends Disposable implements ISource {
+export class HlsSource extends EventTarget implements ISource {
   private _hls: Hls;
+  private _autoLevel: boolean = true;
 
   constructor(url: string) {
     super();
@@ -18,11 +19,16 @@ export class HlsSource extends Disposable implements ISource {
     }
 
     this._hls = new Hls(config);
+    this._hls.on(Hls.Events.MANIFEST_PARSED, () => this.dispatchEvent('levelschange'));
+    this._hls.on(Hls.Events.LEVEL_SWITCHED, () => this.dispatchEvent('levelswitch'));
+    this._hls.on(Hls.Events.AUDIO_TRACKS_UPDATED, () => this.dispatchEvent('audiotrackschange'));
 
     this._hls.loadSource(url);
   }
   
   protected disposeInternal() {
+    super.disposeInternal();
+
     this._hls.destroy();
   }
 
@@ -46,6 +52,7 @@ export class HlsSource extends Disposable implements ISource {
   }
 
   setLevel(id: number): void {
+    this._autoLevel = id === -1;
     this._hls.currentLevel = id;
   }
 
@@ -53,15 +60,22 @@ export class HlsSource extends Disposable implements ISource {
     return this._hls.currentLevel;
   }
 
+  isAutoLevel(): boolean {
+    return this._autoLevel;
+  }
+
   getLevels(): ISourceLevel[] {
     return this._hls.levels.map((level, index) => {
+      const frameRate = level.attrs ? parseFloat(level.attrs['FRAME-RATE'] || "") : NaN;
+
       return {
         id: index,
         name: level.name,
         width: level.width,
         height: level.height,
         bitrate: level.bitrate,
-        codecs: level.codecs
+        codecs: level.codecs,
+        frameRate: isNaN(frameRate) ? 0 : frameRate
       }
     });
   }
@@ -1,6 +1,9 @@
 import { ISubtitleTrack } from "../subtitles/ISubtitleTrack";
+import { ISubtitleStyle } from "../subtitles/SubtitleStyle";
+import { IChapter, IChapterMarks } from "./Chapters";
 import { EventTarget } from '../../libs/events/EventTarget';
 import { Event } from '../../libs/events/Event';
+import { ISourceLevel, ISourceAudioTrack } from './ISource';
 
 export class PlaybackStateChangeEvent extends Event {
   constructor(public state: PlaybackState) {
@@ -32,12 +35,126 @@ export class VolumeChangeEvent extends Event {
   }
 }
 
+export class SubtitleTrackChangeEvent extends Event {
+  /**
+   * @param track the index of the subtitle track or -1 if disabled.
+   * @param manual whether the track has been selected through the API.
+   */
+  constructor(public track: number, public manual: boolean) {
+    super('subtitletrackchange');
+  }
+}
+
+export class SecondarySubtitleTrackChangeEvent extends Event {
+  /**
+   * @param track the index of the secondary subtitle track or -1 if disabled.
+   * @param manual whether the track was selected by the user.
+   */
+  constructor(public track: number, public manual: boolean) {
+    super('secondarysubtitletrackchange');
+  }
+}
+
+/**
+ * The engines that render the subtitles. The basic renderer only supports
+ * basic styling, but it works without a worker.
+ */
+export type SubtitleRenderer = 'libass'|'basic';
+
+export class SubtitleRendererChangeEvent extends Event {
+  /**
+   * @param renderer the subtitle renderer.
+   * @param manual whether the renderer was selected by the user.
+   */
+  constructor(public renderer: SubtitleRenderer, public manual: boolean) {
+    super('subtitlerendererchange');
+  }
+}
+
+export class SubtitleDelayChangeEvent extends Event {
+  /**
+   * @param delay the subtitle delay in seconds.
+   * @param manual whether the delay was changed by the user.
+   */
+  constructor(public delay: number, public manual: boolean) {
+    super('subtitledelaychange');
+  }
+}
+
+export class SubtitleStyleChangeEvent extends Event {
+  /**
+   * @param style the subtitle style.
+   * @param manual whether the style was changed by the user.
+   */
+  constructor(public style: ISubtitleStyle, public manual: boolean) {
+    super('subtitlestylechange');
+  }
+}
+
+export class ChaptersChangeEvent extends Event {
+  constructor(public chapters: IChapter[]) {
+    super('chapterschange');
+  }
+}
+
+export class ChapterMarksChangeEvent extends Event {
+  /**
+   * @param marks the chapter marks.
+   * @param manual whether the marks were changed by the user.
+   */
+  constructor(public marks: IChapterMarks, public manual: boolean) {
+    super('chaptermarkschange');
+  }
+}
+
+export class AutoSkipChangeEvent extends Event {
+  constructor(public autoSkip: boolean) {
+    super('autoskipchange');
+  }
+}
+
+export class AutoplayCountdownChangeEvent extends Event {
+  constructor(public countdown: number) {
+    super('autoplaycountdownchange');
+  }
+}
+
+export class RateChangeEvent extends Event {
+  constructor(public rate: number) {
+    super('ratechange');
+  }
+}
+
+export class FrameStepEvent extends Event {
+  constructor(public time: number) {
+    super('framestep');
+  }
+}
+
 export class NextVideoEvent extends Event {
   constructor(public detail: IVideoDetail) {
     super('nextvideo');
   }
 }
 
+export class QueueChangeEvent extends Event {
+  constructor(public queue: IVideoDetail[]) {
+    super('queuechange');
+  }
+}
+
+export class LevelChangeEvent extends Event {
+  constructor(public level: number) {
+    super('levelchange');
+  }
+}
+
+export class AudioTrackChangeEvent extends Event {
+  constructor(public track: number) {
+    super('audiotrackchange');
+  }
+}
+
 export enum PlaybackState {
   UNSTARTED,
   PAUSED,
@@ -46,8 +163,20 @@ export enum PlaybackState {
   ENDED
 }
 
+/**
+ * The playback rates that are selectable in the player.
+ */
+export const PLAYBACK_RATES: number[] = [0.25, 0.5, 0.75, 1, 1.25, 1.5, 1.75, 2];
+
+/**
+ * The selectable countdowns in seconds before the next video is played where
+ * 0 disables autoplay.
+ */
+export const AUTOPLAY_COUNTDOWNS: number[] = [0, 5, 10, 15];
+
 export interface IVideoDetail {
   title: string;
+  seriesTitle?: string;
   url: string;
   thumbnailUrl: string;
   duration: number;
@@ -72,6 +201,18 @@ export interface IPlayerApi extends EventTarget {
   getCurrentTime(): number;
   getBufferedTime(): number;
 
+  /**
+   * Returns the frame rate of the current quality level or the default frame
+   * rate if it's unknown.
+   */
+  getFrameRate(): number;
+
+  /**
+   * Steps the video by a number of frames. Negative values step backwards.
+   * @param frames the number of frames to step.
+   */
+  stepFrame(frames: number): void;
+
   setVolume(volume: number): void;
   getVolume(): number;
   mute(): void;
@@ -79,13 +220,46 @@ export interface IPlayerApi extends EventTarget {
   setMuted(muted: boolean): void;
   isMuted(): boolean;
 
+  /**
+   * Set the playback rate where 1 is the normal speed.
+   * @param rate the playback rate.
+   */
+  setPlaybackRate(rate: number): void;
+  getPlaybackRate(): number;
+
   isFullscreenEnabled(): boolean;
   enterFullscreen(): void;
   exitFullscreen(): void;
   toggleFullscreen(): void;
   isFullscreen(): boolean;
 
+  /**
+   * Returns whether picture-in-picture is supported and allowed.
+   */
+  isPictureInPictureEnabled(): boolean;
+
+  /**
+   * Shows the video in a floating picture-in-picture window. The subtitles
+   * are composited onto the video.
+   */
+  enterPictureInPicture(): void;
+  exitPictureInPicture(): void;
+  togglePictureInPicture(): void;
+  isPictureInPicture(): boolean;
+
   getSubtitlesTracks(): ISubtitleTrack[];
+
+  /**
+   * Returns the index of the current subtitle track or -1 if subtitles are
+   * disabled.
+   */
+  getSubtitleTrack(): number;
+
+  /**
+   * Adds a subtitle track and returns its index.
+   * @param track the subtitle track.
+   */
+  addSubtitleTrack(track: ISubtitleTrack): number;
   
   /**
    * Set the subtitle track by its index.
@@ -94,6 +268,115 @@ export interface IPlayerApi extends EventTarget {
    */
   setSubtitleTrack(index: number): void;
 
+  /**
+   * Returns the index of the subtitle track that's displayed at the top
+   * together with the current subtitle track or -1 if there's none.
+   */
+  getSecondarySubtitleTrack(): number;
+
+  /**
+   * Set the subtitle track that's displayed at the top together with the
+   * current subtitle track.
+   * If set to -1 only the current subtitle track is displayed.
+   * @param index the index of the subtitle track.
+   */
+  setSecondarySubtitleTrack(index: number): void;
+
+  /**
+   * Delays the subtitles by a number of seconds. Negative values show the
+   * subtitles earlier.
+   * @param delay the delay in seconds.
+   */
+  setSubtitleDelay(delay: number): void;
+  getSubtitleDelay(): number;
+
+  /**
+   * Set the engine that renders the subtitles.
+   * @param renderer the subtitle renderer.
+   */
+  setSubtitleRenderer(renderer: SubtitleRenderer): void;
+  getSubtitleRenderer(): SubtitleRenderer;
+
+  /**
+   * Set the style that overrides the styles of the subtitles.
+   * @param style the subtitle style.
+   */
+  setSubtitleStyle(style: ISubtitleStyle): void;
+  getSubtitleStyle(): ISubtitleStyle;
+
+  getLevels(): ISourceLevel[];
+
+  /**
+   * Returns the ID of the selected quality level or -1 if the quality level is
+   * selected automatically.
+   */
+  getLevel(): number;
+
+  /**
+   * Returns the ID of the quality level that's currently playing.
+   */
+  getCurrentLevel(): number;
+
+  /**
+   * Set the quality level by its ID.
+   * If set to -1 the quality level will be selected automatically.
+   * @param id the ID of the quality level.
+   */
+  setLevel(id: number): void;
+
+  getAudioTracks(): ISourceAudioTrack[];
+
+  /**
+   * Returns the ID of the current audio track or -1 if there's none.
+   */
+  getAudioTrack(): number;
+
+  /**
+   * Set the audio track by its ID.
+   * @param id the ID of the audio track.
+   */
+  setAudioTrack(id: number): void;
+
   getNextVideoDetail(): IVideoDetail|undefined;
   setNextVideoDetail(nextVideo: IVideoDetail|undefined): void;
+
+  /**
+   * Returns the videos that the user has queued to watch next.
+   */
+  getQueue(): IVideoDetail[];
+  setQueue(queue: IVideoDetail[]): void;
+
+  /**
+   * Returns the chapters of the video or an empty array if they're unknown.
+   */
+  getChapters(): IChapter[];
+  setChapters(chapters: IChapter[]): void;
+
+  /**
+   * Returns the times of the opening and ending that have been marked by the
+   * user.
+   */
+  getChapterMarks(): IChapterMarks;
+
+  /**
+   * Set the times of the opening and ending that have been marked.
+   * @param marks the chapter marks.
+   * @param manual whether the marks were changed by the user.
+   */
+  setChapterMarks(marks: IChapterMarks, manual?: boolean): void;
+
+  /**
+   * Set whether the opening and ending are skipped automatically.
+   * @param autoSkip whether to skip automatically.
+   */
+  setAutoSkip(autoSkip: boolean): void;
+  isAutoSkip(): boolean;
+
+  /**
+   * Set the countdown before the next video is played when the video has
+   * ended or its ending is playing.
+   * @param countdown the countdown in seconds or 0 to disable autoplay.
+   */
+  setAutoplayCountdown(countdown: number): void;
+  getAutoplayCountdown(): number;
 }
\ No newline at end of file
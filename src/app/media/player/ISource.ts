@@ -1,4 +1,4 @@
-import { IDisposable } from "../../libs/disposable/IDisposable";
+import { EventTarget } from "../../libs/events/EventTarget";
 
 export interface ISourceLevel {
   id: number;
@@ -7,6 +7,11 @@ export interface ISourceLevel {
   height: number;
   bitrate: number;
   codecs: string;
+
+  /**
+   * The frame rate of the level or 0 if it's unknown.
+   */
+  frameRate: number;
 }
 
 export interface ISourceAudioTrack {
@@ -16,7 +21,14 @@ export interface ISourceAudioTrack {
   language: string;
 }
 
-export interface ISource extends IDisposable {
+/**
+ * A video source that can be attached to a video element.
+ *
+ * Dispatches `levelschange` when the quality levels become available,
+ * `levelswitch` when the playing quality level has changed and
+ * `audiotrackschange` when the audio tracks have been updated.
+ */
+export interface ISource extends EventTarget {
   /**
    * Attaches the source to a video element.
    */
@@ -56,6 +68,11 @@ export interface ISource extends IDisposable {
    */
   getLevel(): number;
 
+  /**
+   * Returns whether the quality level is selected automatically.
+   */
+  isAutoLevel(): boolean;
+
   /**
    * Returns the quality levels.
    */
@@ -0,0 +1,216 @@
+import { EventTarget } from '../../libs/events/EventTarget';
+import { BrowserEvent } from '../../libs/events/BrowserEvent';
+
+export interface IShortcutAction {
+  id: string;
+  label: string;
+
+  /**
+   * The default key combinations, e.g. `Shift+N` or `ArrowLeft`.
+   */
+  bindings: string[];
+
+  /**
+   * Whether the action is also triggered when the focus is outside of the
+   * player.
+   */
+  global?: boolean;
+
+  execute: () => void;
+}
+
+export interface IShortcutBindings {
+  [id: string]: string[];
+}
+
+const KEY_ALIASES: {[key: string]: string} = {
+  ' ': 'Space',
+  'Spacebar': 'Space',
+  'Left': 'ArrowLeft',
+  'Right': 'ArrowRight',
+  'Up': 'ArrowUp',
+  'Down': 'ArrowDown',
+  'Esc': 'Escape'
+};
+
+const KEY_NAMES: {[key: string]: string} = {
+  'ArrowLeft': '←',
+  'ArrowRight': '→',
+  'ArrowUp': '↑',
+  'ArrowDown': '↓'
+};
+
+const MODIFIER_KEYS = ['Control', 'Alt', 'Shift', 'Meta', 'OS'];
+
+/**
+ * Returns the key combination of a keyboard event, e.g. `Ctrl+Shift+N`. If
+ * only a modifier key is pressed an empty string is returned.
+ */
+export function getKeyCombination(e: BrowserEvent): string {
+  let key = KEY_ALIASES[e.key] || e.key;
+  if (!key && e.keyCode) {
+    key = String.fromCharCode(e.keyCode);
+  }
+  if (!key || MODIFIER_KEYS.indexOf(key) !== -1) return '';
+
+  const parts: string[] = [];
+  if (e.ctrlKey) parts.push('Ctrl');
+  if (e.altKey) parts.push('Alt');
+  if (e.metaKey) parts.push('Meta');
+
+  if (key.length === 1 && key.toUpperCase() === key.toLowerCase()) {
+    // Shift is already part of symbols like `?` or `<`.
+  } else if (e.shiftKey) {
+    parts.push('Shift');
+  }
+
+  parts.push(key.length === 1 ? key.toUpperCase() : key);
+
+  return parts.join('+');
+}
+
+/**
+ * Returns the key combination in a human readable format.
+ */
+export function formatKeyCombination(combination: string): string {
+  return combination.split('+')
+    .map(key => KEY_NAMES[key] || key)
+    .join(' + ');
+}
+
+/**
+ * A registry of the actions that can be triggered by keyboard shortcuts and
+ * their key bindings. The bindings can be remapped by the user.
+ *
+ * Dispatches `change` when the bindings have been changed.
+ */
+export class KeyboardShortcuts extends EventTarget {
+  private _actions: IShortcutAction[] = [];
+  private _customBindings: IShortcutBindings = {};
+
+  register(action: IShortcutAction): void {
+    if (this.getAction(action.id)) throw new Error("Action " + action.id + " is already registered.");
+
+    this._actions.push(action);
+  }
+
+  getActions(): IShortcutAction[] {
+    return this._actions.slice();
+  }
+
+  getAction(id: string): IShortcutAction|undefined {
+    return this._actions.filter(action => action.id === id)[0];
+  }
+
+  getBindings(id: string): string[] {
+    if (this._customBindings.hasOwnProperty(id)) {
+      return this._customBindings[id].slice();
+    }
+
+    const action = this.getAction(id);
+    return action ? action.bindings.slice() : [];
+  }
+
+  setBindings(id: string, bindings: string[]): void {
+    const action = this.getAction(id);
+    if (!action) throw new Error("Action " + id + " is not registered.");
+
+    if (bindings.join('\n') === action.bindings.join('\n')) {
+      delete this._customBindings[id];
+    } else {
+      this._customBindings[id] = bindings.slice();
+    }
+
+    this.dispatchEvent('change');
+  }
+
+  /**
+   * Binds the key combination to the action and removes it from any other
+   * action that it was bound to.
+   * @param id the ID of the action.
+   * @param combination the key combination.
+   */
+  addBinding(id: string, combination: string): void {
+    const conflicts = this.getConflicts(combination, id);
+    for (let i = 0; i < conflicts.length; i++) {
+      this.removeBinding(conflicts[i].id, combination);
+    }
+
+    const bindings = this.getBindings(id);
+    if (bindings.indexOf(combination) === -1) {
+      this.setBindings(id, bindings.concat([combination]));
+    }
+  }
+
+  removeBinding(id: string, combination: string): void {
+    this.setBindings(id, this.getBindings(id).filter(c => c !== combination));
+  }
+
+  resetBindings(): void {
+    this._customBindings = {};
+
+    this.dispatchEvent('change');
+  }
+
+  /**
+   * Returns the bindings that differ from the defaults.
+   */
+  getCustomBindings(): IShortcutBindings {
+    const bindings: IShortcutBindings = {};
+    for (let id in this._customBindings) {
+      if (this._customBindings.hasOwnProperty(id)) {
+        bindings[id] = this._customBindings[id].slice();
+      }
+    }
+    return bindings;
+  }
+
+  setCustomBindings(bindings: IShortcutBindings): void {
+    this._customBindings = {};
+    for (let id in bindings) {
+      if (bindings.hasOwnProperty(id) && Array.isArray(bindings[id])) {
+        this._customBindings[id] = bindings[id].slice();
+      }
+    }
+
+    this.dispatchEvent('change');
+  }
+
+  /**
+   * Returns the actions that are bound to the key combination.
+   * @param combination the key combination.
+   * @param exceptId the ID of an action to leave out.
+   */
+  getConflicts(combination: string, exceptId?: string): IShortcutAction[] {
+    return this._actions
+      .filter(action => action.id !== exceptId
+        && this.getBindings(action.id).indexOf(combination) !== -1);
+  }
+
+  /**
+   * Returns the action that's bound to the key combination.
+   * @param combination the key combination.
+   * @param global whether only global actions should be returned.
+   */
+  findAction(combination: string, global: boolean = false): IShortcutAction|undefined {
+    if (!combination) return undefined;
+
+    return this.getConflicts(combination)
+      .filter(action => !global || action.global)[0];
+  }
+
+  /**
+   * Executes the action that's bound to the key combination of the event.
+   * Returns whether an action has been executed.
+   * @param e the keydown event.
+   * @param global whether the event happened outside of the player.
+   */
+  handleKeyDown(e: BrowserEvent, global: boolean = false): boolean {
+    const action = this.findAction(getKeyCombination(e), global);
+    if (!action) return false;
+
+    action.execute();
+
+    return true;
+  }
+}
\ No newline at end of file
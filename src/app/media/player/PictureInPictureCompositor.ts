@@ -0,0 +1,145 @@
+import { EventTarget } from '../../libs/events/EventTarget';
+import { EventHandler } from '../../libs/events/EventHandler';
+import { captureCanvasStream } from '../../utils/pictureInPicture';
+
+/**
+ * The frame rate of the composited stream.
+ */
+const FRAME_RATE = 30;
+
+/**
+ * The maximum height of the composited stream in pixels.
+ */
+const MAX_HEIGHT = 720;
+
+/**
+ * Draws the video together with the subtitles onto a canvas and plays its
+ * stream in a separate video element. Picture-in-picture of the video element
+ * itself wouldn't include the subtitles as they're rendered separately.
+ *
+ * Dispatches `play` and `pause` when the playback is toggled in the
+ * picture-in-picture window.
+ */
+export class PictureInPictureCompositor extends EventTarget {
+  private _videoElement: HTMLVideoElement;
+  private _streamElement: HTMLVideoElement;
+  private _canvasElement: HTMLCanvasElement;
+  private _drawSubtitles: (context: CanvasRenderingContext2D, width: number, height: number) => void;
+  private _handler = new EventHandler(this);
+  private _timer: number|undefined = undefined;
+
+  /**
+   * @param video the video element.
+   * @param drawSubtitles draws the current subtitles onto the canvas.
+   */
+  constructor(video: HTMLVideoElement, drawSubtitles: (context: CanvasRenderingContext2D, width: number, height: number) => void) {
+    super();
+
+    this._videoElement = video;
+    this._drawSubtitles = drawSubtitles;
+
+    this._canvasElement = document.createElement('canvas');
+    this._streamElement = document.createElement('video');
+    this._streamElement.muted = true;
+
+    this._handler
+      .listen(this._videoElement, 'play', this._onVideoPlaybackChange, false)
+      .listen(this._videoElement, 'pause', this._onVideoPlaybackChange, false)
+      .listen(this._streamElement, 'play', this._onStreamPlaybackChange, false)
+      .listen(this._streamElement, 'pause', this._onStreamPlaybackChange, false);
+  }
+
+  protected disposeInternal() {
+    super.disposeInternal();
+
+    this._handler.dispose();
+    this._stopDrawing();
+
+    const stream = this._streamElement.srcObject as MediaStream|null;
+    if (stream) {
+      stream.getTracks().forEach(track => track.stop());
+    }
+    this._streamElement.srcObject = null;
+  }
+
+  /**
+   * Returns the video element that plays the composited stream.
+   */
+  getStreamElement(): HTMLVideoElement {
+    return this._streamElement;
+  }
+
+  /**
+   * Starts drawing and waits for the composited stream to play.
+   */
+  async start(): Promise<void> {
+    const video = this._videoElement;
+    const height = Math.min(video.videoHeight || MAX_HEIGHT, MAX_HEIGHT);
+    const ratio = video.videoWidth && video.videoHeight ? video.videoWidth/video.videoHeight : 16/9;
+
+    this._canvasElement.width = Math.round(height*ratio);
+    this._canvasElement.height = height;
+
+    this._draw();
+    this._startDrawing();
+
+    this._streamElement.srcObject = captureCanvasStream(this._canvasElement, FRAME_RATE);
+    await this._streamElement.play();
+
+    if (video.paused) {
+      this._streamElement.pause();
+    }
+  }
+
+  private _startDrawing() {
+    if (this._timer !== undefined) return;
+
+    // Animation frames aren't fired while the page is hidden, which is likely
+    // while the picture-in-picture window is used.
+    const frame = () => {
+      this._timer = window.setTimeout(frame, 1000/FRAME_RATE);
+      this._draw();
+    };
+    this._timer = window.setTimeout(frame, 1000/FRAME_RATE);
+  }
+
+  private _stopDrawing() {
+    window.clearTimeout(this._timer);
+    this._timer = undefined;
+  }
+
+  private _draw() {
+    const context = this._canvasElement.getContext('2d');
+    if (!context) return;
+
+    const width = this._canvasElement.width;
+    const height = this._canvasElement.height;
+
+    context.fillStyle = "#000";
+    context.fillRect(0, 0, width, height);
+    if (this._videoElement.readyState >= 2) {
+      context.drawImage(this._videoElement, 0, 0, width, height);
+    }
+    this._drawSubtitles(context, width, height);
+  }
+
+  private _onVideoPlaybackChange() {
+    if (this._videoElement.paused === this._streamElement.paused) return;
+
+    if (this._videoElement.paused) {
+      this._streamElement.pause();
+    } else {
+      this._streamElement.play()
+        .catch(() => {
+          // The stream stays paused if playing is blocked and is played again
+          // on the next playback change of the video.
+        });
+    }
+  }
+
+  private _onStreamPlaybackChange() {
+    if (this._videoElement.paused === this._streamElement.paused) return;
+
+    this.dispatchEvent(this._streamElement.paused ? 'pause' : 'play');
+  }
+}
\ No newline at end of file
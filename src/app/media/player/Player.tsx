@@ -6,7 +6,7 @@ import { ISubtitleTrack } from '../subtitles/ISubtitleTrack';
 import { requestFullscreen, exitFullscreen, getFullscreenElement } from '../../utils/fullscreen';
 import { ChromeBottomComponent } from './chrome/BottomComponent';
 import { parseSimpleQuery } from '../../utils/url';
-import { IPlayerApi, PlaybackState, IVideoDetail } from './IPlayerApi';
+import { IPlayerApi, PlaybackState, IVideoDetail, PLAYBACK_RATES, SubtitleRenderer, TimeUpdateEvent } from './IPlayerApi';
 import { ChromelessPlayerApi } from './ChromelessPlayerApi';
 import { EventHandler } from '../../libs/events/EventHandler';
 import { BrowserEvent } from '../../libs/events/BrowserEvent';
@@ -15,19 +15,81 @@ import { ChromeTooltip, IChromeTooltip } from './chrome/Tooltip';
 import { parseAndFormatTime } from '../../utils/time';
 import { IRect } from '../../utils/rect';
 import { BezelComponent } from './chrome/BezelComponent';
-import { ICON_PAUSE, ICON_PLAY, ICON_SEEK_BACK_5, ICON_VOLUME, ICON_VOLUME_HIGH, ICON_SEEK_FORWARD, ICON_SEEK_FORWARD_5, ICON_SEEK_BACK_10, ICON_SEEK_FORWARD_10, ICON_VOLUME_MUTE } from './assets';
+import { ICON_PAUSE, ICON_PLAY, ICON_SEEK_BACK, ICON_SEEK_BACK_5, ICON_VOLUME, ICON_VOLUME_HIGH, ICON_SEEK_FORWARD, ICON_SEEK_FORWARD_5, ICON_SEEK_BACK_10, ICON_SEEK_FORWARD_10, ICON_VOLUME_MUTE } from './assets';
 import { BufferComponent } from './chrome/BufferComponent';
+import { KeyboardShortcuts, getKeyCombination } from './KeyboardShortcuts';
+import { ShortcutsOverlay } from './chrome/ShortcutsOverlay';
+import { SubtitleStyleOverlay } from './chrome/SubtitleStyleOverlay';
+import { TranscriptPanel } from './chrome/TranscriptPanel';
+import { QueuePanel } from './chrome/QueuePanel';
+import { ISubtitleStyle } from '../subtitles/SubtitleStyle';
+import { createSubtitleTrackFromFile, isSubtitleFile, SUBTITLE_FILE_EXTENSIONS } from '../subtitles/SubtitleFile';
 import { ISubtitle } from 'crunchyroll-lib/models/ISubtitle';
 import { SubtitleToAss } from '../../converter/SubtitleToAss';
+import { AssToSrt } from '../../converter/AssToSrt';
+import { AssToVtt } from '../../converter/AssToVtt';
+import { downloadText, sanitizeFilename } from '../../utils/download';
+import { IChapter, IChapterMarks, IChapterSegment, DEFAULT_SONG_LENGTH, detectChapterMarks, getChapters, getChapterAt, getChapterLabel, isSkippableChapter } from './Chapters';
+import { SkipButton } from './chrome/SkipButton';
+import { EndScreen } from './chrome/EndScreen';
+import { Storyboard } from './Storyboard';
+import { MiniPlayerComponent } from './chrome/MiniPlayerComponent';
+import { PreferencesOverlay } from './chrome/PreferencesOverlay';
+import { IPreferences, PreferenceChangeEvent } from '../../preferences/IPreferences';
+
+/**
+ * Returns the language of a subtitle by its title, e.g. `[English (US)] English (US)`.
+ */
+function getSubtitleLanguage(title: string): string {
+  const m = /^\[([^\]]+)\]/.exec(title);
+  return m ? m[1] : title;
+}
+
+/**
+ * The position of the mini-player relative to the bottom right corner of the
+ * window in pixels.
+ */
+export interface IMiniPlayerPosition {
+  right: number;
+  bottom: number;
+  width: number;
+}
+
+const MIN_MINI_PLAYER_WIDTH = 240;
+const MAX_MINI_PLAYER_WIDTH = 960;
 
 export interface IPlayerProps {
   config?: IPlayerConfig;
   large?: boolean;
   sizeEnabled?: boolean;
   onSizeChange?: (large: boolean) => void;
+  onMiniPlayerClose?: () => void;
+  onMiniPlayerPositionChange?: (position: IMiniPlayerPosition) => void;
+
+  /**
+   * The preferences that are shown in the preferences overlay and that the
+   * player behaviour is configured by.
+   */
+  preferences?: IPreferences;
+
+  /**
+   * Called when a backup of the stored data should be downloaded.
+   */
+  onBackupExport?: () => Promise<void>;
+
+  /**
+   * Called when a backup file has been selected for import.
+   * @param file the backup file.
+   * @param overwrite whether the data that isn't in the backup is removed.
+   */
+  onBackupImport?: (file: File, overwrite: boolean) => Promise<void>;
 }
 
 export interface IPlayerConfig {
+  /**
+   * The ID of the media that the seek thumbnails are cached by.
+   */
+  mediaId?: string;
   title?: string;
   url?: string;
   thumbnailUrl?: string;
@@ -35,9 +97,64 @@ export interface IPlayerConfig {
   duration?: number;
   nextVideo?: IVideoDetail;
   startTime?: number;
+
+  /**
+   * The name of downloaded files without the extension.
+   */
+  filename?: string;
+
+  /**
+   * The time to resume from. It's used automatically when the video is loaded
+   * and offered in a prompt when the video is cued.
+   */
+  resumeTime?: number;
   autoplay?: boolean;
   volume?: number;
   muted?: boolean;
+  quality?: string;
+  audioLanguage?: string;
+
+  /**
+   * The preferred subtitle language or "off" to disable subtitles.
+   */
+  subtitleLanguage?: string;
+
+  /**
+   * The preferred language of the subtitles that are displayed at the top
+   * together with the main subtitles.
+   */
+  secondarySubtitleLanguage?: string;
+
+  /**
+   * The subtitle delay in seconds.
+   */
+  subtitleDelay?: number;
+  subtitleStyle?: ISubtitleStyle;
+  subtitleRenderer?: SubtitleRenderer;
+  playbackRate?: number;
+
+  /**
+   * The times of the opening and ending that have been marked by the user.
+   * They take precedence over the chapters that are detected in the subtitles.
+   */
+  chapterMarks?: IChapterMarks;
+
+  /**
+   * Whether the opening and ending are skipped automatically.
+   */
+  autoSkip?: boolean;
+
+  /**
+   * The countdown in seconds before the next video is played or 0 to disable
+   * autoplay.
+   */
+  autoplayCountdown?: number;
+
+  /**
+   * The frame rate that's used for frame stepping if the stream doesn't
+   * specify one.
+   */
+  frameRate?: number;
 }
 
 export class Player extends Component<IPlayerProps, {}> {
@@ -49,6 +166,12 @@ export class Player extends Component<IPlayerProps, {}> {
   private _bottomComponent: ChromeBottomComponent;
   private _tooltipComponent: ChromeTooltip;
   private _bezelElement: BezelComponent;
+  private _shortcutsOverlay: ShortcutsOverlay;
+  private _subtitleStyleOverlay: SubtitleStyleOverlay;
+  private _transcriptPanel: TranscriptPanel;
+  private _queuePanel: QueuePanel;
+  private _preferencesOverlay: PreferencesOverlay|undefined;
+  private _subtitleFileElement: HTMLInputElement;
   private _api: IPlayerApi = new ChromelessPlayerApi();
   private _handler: EventHandler = new EventHandler(this);
 
@@ -56,12 +179,17 @@ export class Player extends Component<IPlayerProps, {}> {
   private _nextVideoButtonRect: IRect;
   private _sizeButtonRect: IRect;
   private _fullscreenButtonRect: IRect;
+  private _pictureInPictureButtonRect: IRect;
   private _volumeMuteButtonRect: IRect;
+  private _subtitlesButtonRect: IRect;
+  private _settingsButtonRect: IRect;
 
   private _autoHide: boolean = true;
   private _autoHideTimer: number;
   private _autoHideDelay: number = 200;
   private _autoHideMoveDelay: number = 3000;
+  private _seekStep: number = 5;
+  private _longSeekStep: number = 10;
   private _preview: boolean = false;
 
   private _actionClickTimer: number|undefined = undefined;
@@ -70,6 +198,35 @@ export class Player extends Component<IPlayerProps, {}> {
   private _mouseDown: boolean = false;
 
   private _bigMode: boolean = false;
+  private _miniPlayer: boolean = false;
+  private _miniPlayerPosition: IMiniPlayerPosition = {
+    right: 16,
+    bottom: 16,
+    width: 400
+  };
+
+  private _qualityPending: boolean = false;
+  private _audioLanguagePending: boolean = false;
+
+  private _shortcuts = new KeyboardShortcuts();
+  private _lastSubtitleTrack: number = 0;
+
+  /**
+   * The subtitle track that the chapters have been detected in.
+   */
+  private _chapterTrack: ISubtitleTrack|undefined = undefined;
+  private _detectedChapterMarks: IChapterMarks = {};
+  private _chapterDetectionTimer: number|undefined = undefined;
+
+  /**
+   * The chapter that has been skipped automatically. It's not skipped again
+   * if the user seeks back into it.
+   */
+  private _autoSkippedChapter: IChapter|undefined = undefined;
+
+  private _storyboard: Storyboard|undefined = undefined;
+  private _storyboardHandler = new EventHandler(this);
+  private _progressHover: { time: number, percentage: number }|undefined = undefined;
 
   constructor(props: IPlayerProps) {
     super(props);
@@ -78,6 +235,8 @@ export class Player extends Component<IPlayerProps, {}> {
       this._config = props.config;
     }
     this._api.setLarge(!!props.large);
+
+    this._registerShortcuts();
   }
 
   cueVideoByConfig(config: IPlayerConfig) {
@@ -88,6 +247,7 @@ export class Player extends Component<IPlayerProps, {}> {
     } else {
       this._cuedThumbnailComponent.setThumbnailUrl('');
     }
+    this._cuedThumbnailComponent.setResumeTime(config.resumeTime);
     this._cuedThumbnailComponent.setButtonVisible(true);
     this.setPreview(true);
     this.setAutoHide(true);
@@ -97,7 +257,7 @@ export class Player extends Component<IPlayerProps, {}> {
 
   loadVideoByConfig(config: IPlayerConfig) {
     this._config = config;
-    this._updateChromelessPlayer(config);
+    this._updateChromelessPlayer(config, config.resumeTime);
     if (config.thumbnailUrl && !config.url) {
       this._cuedThumbnailComponent.setThumbnailUrl(config.thumbnailUrl);
       this.setPreview(true);
@@ -112,39 +272,96 @@ export class Player extends Component<IPlayerProps, {}> {
     this.resize();
   }
 
-  private async _updateChromelessPlayer(config: IPlayerConfig) {
+  private _playCuedVideo(startTime: number|undefined): void {
+    if (!this._config || !this._configCued) return;
+
+    this._updateChromelessPlayer(this._config, startTime);
+
+    this._cuedThumbnailComponent.setVisible(false);
+
+    this.setPreview(false);
+    this.setAutoHide(true);
+
+    this.resize();
+  }
+
+  private async _updateChromelessPlayer(config: IPlayerConfig, startTime: number|undefined = config.startTime) {
     this._configCued = false;
+    this._disposeStoryboard();
+    this._qualityPending = config.quality !== undefined;
+    this._audioLanguagePending = config.audioLanguage !== undefined;
     if (config.subtitles) {
       const tracks: ISubtitleTrack[] = [];
       let defaultTrack: number = -1;
-      let selectedSubtitleId: number|undefined = undefined;
+      let queryTrack: number = -1;
+      let languageTrack: number = -1;
+      let secondaryTrack: number = -1;
       let queries = parseSimpleQuery(location.search);
 
       for (let i = 0; i < config.subtitles.length; i++) {
-        let useSubtitle = false;
-        if (queries.hasOwnProperty('ssid')) {
-          let id: string = queries['ssid'];
-          useSubtitle = config.subtitles[i].getId().toString() === id;
-        } else {
-          useSubtitle = config.subtitles[i].isDefault();
+        let subtitle = config.subtitles[i];
+        const language = getSubtitleLanguage(subtitle.getTitle());
+
+        if (queries.hasOwnProperty('ssid') && subtitle.getId().toString() === queries['ssid']) {
+          queryTrack = i;
+        }
+        if (languageTrack === -1 && language === config.subtitleLanguage) {
+          languageTrack = i;
         }
-        if (useSubtitle) {
+        if (secondaryTrack === -1 && language === config.secondarySubtitleLanguage) {
+          secondaryTrack = i;
+        }
+        if (subtitle.isDefault()) {
           defaultTrack = i;
         }
-        
-        let subtitle = config.subtitles[i];
+
         tracks.push({
           label: subtitle.getTitle(),
+          language: language,
           getContent: async (): Promise<string> => {
             const converter = new SubtitleToAss(subtitle);
             return await converter.getContentAsAss();
           }
         });
       }
+
+      // The subtitle in the URL has priority over the preferred language.
+      if (queryTrack !== -1) {
+        defaultTrack = queryTrack;
+      } else if (config.subtitleLanguage === "off") {
+        defaultTrack = -1;
+      } else if (languageTrack !== -1) {
+        defaultTrack = languageTrack;
+      }
+
       this._chromelessPlayer.setSubtitleTracks(tracks);
+      if (secondaryTrack !== defaultTrack) {
+        this._chromelessPlayer.setSecondarySubtitleTrack(secondaryTrack);
+      }
       this._chromelessPlayer.setSubtitleTrack(defaultTrack);
     }
 
+    this._chromelessPlayer.setSubtitleDelay(config.subtitleDelay || 0);
+
+    this._autoSkippedChapter = undefined;
+    this._api.setChapterMarks(config.chapterMarks || {});
+
+    if (config.autoSkip !== undefined) {
+      this._api.setAutoSkip(config.autoSkip);
+    }
+
+    if (config.autoplayCountdown !== undefined) {
+      this._api.setAutoplayCountdown(config.autoplayCountdown);
+    }
+
+    if (config.subtitleRenderer !== undefined) {
+      this._chromelessPlayer.setSubtitleRenderer(config.subtitleRenderer);
+    }
+
+    if (config.subtitleStyle !== undefined) {
+      this._chromelessPlayer.setSubtitleStyle(config.subtitleStyle);
+    }
+
     if (config.volume !== undefined) {
       this._chromelessPlayer.setVolume(config.volume);
     }
@@ -153,8 +370,16 @@ export class Player extends Component<IPlayerProps, {}> {
       this._chromelessPlayer.setMuted(config.muted);
     }
 
+    if (config.playbackRate !== undefined) {
+      this._chromelessPlayer.setPlaybackRate(config.playbackRate);
+    }
+
+    if (config.frameRate !== undefined) {
+      this._chromelessPlayer.setDefaultFrameRate(config.frameRate);
+    }
+
     if (config.url) {
-      this._chromelessPlayer.setVideoSource(new HlsSource(config.url), config.startTime);
+      this._chromelessPlayer.setVideoSource(new HlsSource(config.url), startTime);
     } else {
       this._chromelessPlayer.removeVideoSource();
     }
@@ -217,6 +442,10 @@ export class Player extends Component<IPlayerProps, {}> {
     return this._api;
   }
 
+  getShortcuts(): KeyboardShortcuts {
+    return this._shortcuts;
+  }
+
   private _onSizeChange(): void {
     const large = this._api.isLarge();
     if (large) {
@@ -260,95 +489,290 @@ export class Player extends Component<IPlayerProps, {}> {
     this._bezelElement.playSvgPath(d);
   }
 
-  private _onKeyDown(e: BrowserEvent) {
+  /**
+   * Seeks relative to the current time and shows the matching icon.
+   * @param seconds the seconds to seek by, negative to seek back.
+   */
+  private _seekBy(seconds: number): void {
     const api = this.getApi();
-    switch (e.keyCode) {
-      case 49:
-        api.seekTo(api.getDuration()*0.1);
-        break;
-      case 50:
-        api.seekTo(api.getDuration()*0.2);
-        break;
-      case 51:
-        api.seekTo(api.getDuration()*0.3);
-        break;
-      case 52:
-        api.seekTo(api.getDuration()*0.4);
-        break;
-      case 53:
-        api.seekTo(api.getDuration()*0.5);
-        break;
-      case 54:
-        api.seekTo(api.getDuration()*0.6);
-        break;
-      case 55:
-        api.seekTo(api.getDuration()*0.7);
-        break;
-      case 56:
-        api.seekTo(api.getDuration()*0.8);
-        break;
-      case 57:
-        api.seekTo(api.getDuration()*0.9);
-        break;
-      // Space
-      // K
-      case 32:
-      case 75:
-        var playing = api.getPreferredPlaybackState() === PlaybackState.PLAYING;
-        if (playing) {
-          this._playSvgBezel(ICON_PAUSE);
-          api.pauseVideo();
+
+    let icon: string;
+    if (seconds < 0) {
+      icon = seconds === -5 ? ICON_SEEK_BACK_5 : seconds === -10 ? ICON_SEEK_BACK_10 : ICON_SEEK_BACK;
+    } else {
+      icon = seconds === 5 ? ICON_SEEK_FORWARD_5 : seconds === 10 ? ICON_SEEK_FORWARD_10 : ICON_SEEK_FORWARD;
+    }
+    this._playSvgBezel(icon);
+
+    api.seekTo(Math.min(Math.max(api.getCurrentTime() + seconds, 0), api.getDuration()));
+  }
+
+  private _stepPlaybackRate(direction: number): void {
+    const api = this.getApi();
+    const rate = api.getPlaybackRate();
+
+    let nextRate = rate;
+    if (direction > 0) {
+      const rates = PLAYBACK_RATES.filter(r => r > rate);
+      if (rates.length > 0) {
+        nextRate = rates[0];
+      }
+    } else {
+      const rates = PLAYBACK_RATES.filter(r => r < rate);
+      if (rates.length > 0) {
+        nextRate = rates[rates.length - 1];
+      }
+    }
+
+    api.setPlaybackRate(nextRate);
+    this._bezelElement.playText(nextRate + "x");
+  }
+
+  private _stepSubtitleDelay(seconds: number): void {
+    const api = this.getApi();
+    api.setSubtitleDelay(api.getSubtitleDelay() + seconds);
+
+    const delay = Math.round(api.getSubtitleDelay()*1000);
+    this._bezelElement.playText("Subtitle delay: " + (delay > 0 ? "+" : "") + delay + " ms");
+  }
+
+  private _onSubtitleTracksChange(): void {
+    // Wait for the subtitle track to be selected as well.
+    window.clearTimeout(this._chapterDetectionTimer);
+    this._chapterDetectionTimer = window.setTimeout(() => {
+      this._chapterDetectionTimer = undefined;
+      this._detectChapters();
+    }, 0);
+  }
+
+  private async _detectChapters(): Promise<void> {
+    const api = this.getApi();
+    const tracks = api.getSubtitlesTracks();
+
+    let track: ISubtitleTrack|undefined = tracks[api.getSubtitleTrack()];
+    if (!track) {
+      // Keep the chapters if the subtitles are only turned off.
+      if (this._chapterTrack && tracks.indexOf(this._chapterTrack) !== -1) return;
+      track = tracks[0];
+    }
+    if (track === this._chapterTrack) return;
+
+    this._chapterTrack = track;
+    this._detectedChapterMarks = {};
+    this._updateChapters();
+    if (!track) return;
+
+    try {
+      const marks = detectChapterMarks(await track.getContent());
+      if (this._chapterTrack !== track) return;
+
+      this._detectedChapterMarks = marks;
+      this._updateChapters();
+    } catch (e) {
+      console.error(e);
+    }
+  }
+
+  private _updateChapters(): void {
+    const api = this.getApi();
+    const marks = api.getChapterMarks();
+    const detected = this._detectedChapterMarks;
+
+    api.setChapters(getChapters(api.getDuration(), {
+      opening: marks.opening || detected.opening,
+      ending: marks.ending || detected.ending
+    }));
+  }
+
+  private _skipChapter(chapter: IChapter): void {
+    const api = this.getApi();
+    this._bezelElement.playText("Skipped " + getChapterLabel(chapter.type).toLowerCase());
+    api.seekTo(Math.min(chapter.end, api.getDuration()));
+  }
+
+  /**
+   * Marks the start or end of the opening or ending at the current time. The
+   * other end is kept if it's still valid.
+   */
+  private _markChapter(type: 'opening'|'ending', edge: 'start'|'end'): void {
+    const api = this.getApi();
+    const time = api.getCurrentTime();
+    const marks = api.getChapterMarks();
+    const current = marks[type] || this._detectedChapterMarks[type];
+
+    let segment: IChapterSegment;
+    if (edge === 'start') {
+      segment = {
+        start: time,
+        end: current && current.end > time ? current.end : Math.min(time + DEFAULT_SONG_LENGTH, api.getDuration())
+      };
+    } else {
+      segment = {
+        start: current && current.start < time ? current.start : Math.max(time - DEFAULT_SONG_LENGTH, 0),
+        end: time
+      };
+    }
+
+    const next: IChapterMarks = {
+      opening: marks.opening,
+      ending: marks.ending
+    };
+    next[type] = segment;
+    api.setChapterMarks(next, true);
+
+    this._bezelElement.playText(getChapterLabel(type) + (edge === 'start' ? " starts at " : " ends at ") + parseAndFormatTime(time));
+  }
+
+  private _onTimeUpdate(e: TimeUpdateEvent): void {
+    const api = this.getApi();
+    if (!api.isAutoSkip() || api.getPreferredPlaybackState() !== PlaybackState.PLAYING) return;
+
+    const chapter = getChapterAt(api.getChapters(), e.time);
+    if (!chapter || !isSkippableChapter(chapter)) return;
+
+    const skipped = this._autoSkippedChapter;
+    if (skipped && skipped.type === chapter.type && skipped.start === chapter.start) return;
+
+    this._autoSkippedChapter = chapter;
+    this._skipChapter(chapter);
+  }
+
+  private _togglePlayback(): void {
+    const api = this.getApi();
+    const playing = api.getPreferredPlaybackState() === PlaybackState.PLAYING;
+    if (playing) {
+      this._playSvgBezel(ICON_PAUSE);
+      api.pauseVideo();
+    } else {
+      this._playSvgBezel(ICON_PLAY);
+      api.playVideo();
+    }
+  }
+
+  /**
+   * Toggles the transcript. It takes the place of the queue.
+   */
+  private _toggleTranscript(): void {
+    this._queuePanel.setOpen(false);
+    this._transcriptPanel.toggle();
+  }
+
+  /**
+   * Toggles the queue. It takes the place of the transcript.
+   */
+  private _toggleQueue(): void {
+    this._transcriptPanel.setOpen(false);
+    this._queuePanel.toggle();
+  }
+
+  private _toggleSubtitles(): void {
+    const api = this.getApi();
+    const track = api.getSubtitleTrack();
+    if (track !== -1) {
+      this._lastSubtitleTrack = track;
+      api.setSubtitleTrack(-1);
+    } else if (api.getSubtitlesTracks().length > 0) {
+      const tracks = api.getSubtitlesTracks();
+      api.setSubtitleTrack(this._lastSubtitleTrack < tracks.length ? this._lastSubtitleTrack : 0);
+    }
+  }
+
+  private _registerShortcuts(): void {
+    const api = this.getApi();
+    const shortcuts = this._shortcuts;
+
+    shortcuts.register({
+      id: 'playpause',
+      label: "Play / pause",
+      bindings: ['K', 'Space'],
+      global: true,
+      execute: () => this._togglePlayback()
+    });
+    // The IDs are kept from when the seek steps were fixed so that custom
+    // bindings still apply.
+    shortcuts.register({
+      id: 'seekback5',
+      label: "Seek back",
+      bindings: ['ArrowLeft'],
+      execute: () => this._seekBy(-this._seekStep)
+    });
+    shortcuts.register({
+      id: 'seekforward5',
+      label: "Seek forward",
+      bindings: ['ArrowRight'],
+      execute: () => this._seekBy(this._seekStep)
+    });
+    shortcuts.register({
+      id: 'seekback10',
+      label: "Seek back further",
+      bindings: ['J'],
+      execute: () => this._seekBy(-this._longSeekStep)
+    });
+    shortcuts.register({
+      id: 'seekforward10',
+      label: "Seek forward further",
+      bindings: ['L'],
+      execute: () => this._seekBy(this._longSeekStep)
+    });
+    shortcuts.register({
+      id: 'skipopening',
+      label: "Skip opening or ending",
+      bindings: ['S'],
+      execute: () => {
+        this._playSvgBezel(ICON_SEEK_FORWARD);
+
+        // Skip 85 seconds if the chapters are unknown.
+        const chapter = getChapterAt(api.getChapters(), api.getCurrentTime());
+        if (chapter && isSkippableChapter(chapter)) {
+          api.seekTo(Math.min(chapter.end, api.getDuration()));
         } else {
-          this._playSvgBezel(ICON_PLAY);
-          api.playVideo();
+          api.seekTo(Math.min(api.getCurrentTime() + 85, api.getDuration()));
         }
-        break;
-      // End
-      case 35:
-        api.seekTo(api.getDuration());
-        break;
-      // Home
-      // 0
-      case 36:
-      case 48:
-        api.seekTo(0);
-        break;
-      // Left arrow
-      case 37:
-        this._playSvgBezel(ICON_SEEK_BACK_5);
-        api.seekTo(Math.max(api.getCurrentTime() - 5, 0));
-        break;
-      // Up arrow
-      case 38:
+      }
+    });
+    shortcuts.register({
+      id: 'seekstart',
+      label: "Seek to the beginning",
+      bindings: ['Home', '0'],
+      execute: () => api.seekTo(0)
+    });
+    shortcuts.register({
+      id: 'seekend',
+      label: "Seek to the end",
+      bindings: ['End'],
+      execute: () => api.seekTo(api.getDuration())
+    });
+    for (let i = 1; i <= 9; i++) {
+      shortcuts.register({
+        id: 'seekpercent' + i*10,
+        label: "Seek to " + i*10 + "%",
+        bindings: [i.toString()],
+        execute: () => api.seekTo(api.getDuration()*i/10)
+      });
+    }
+    shortcuts.register({
+      id: 'volumeup',
+      label: "Increase volume",
+      bindings: ['ArrowUp'],
+      execute: () => {
         this._playSvgBezel(ICON_VOLUME + " " + ICON_VOLUME_HIGH);
         api.setVolume(Math.min(api.getVolume() + 5/100, 1));
-        break;
-      // Right arrow
-      case 39:
-        this._playSvgBezel(ICON_SEEK_FORWARD_5);
-        api.seekTo(Math.min(api.getCurrentTime() + 5, api.getDuration()));
-        break;
-      // Down arrow
-      case 40:
+      }
+    });
+    shortcuts.register({
+      id: 'volumedown',
+      label: "Decrease volume",
+      bindings: ['ArrowDown'],
+      execute: () => {
         this._playSvgBezel(ICON_VOLUME);
         api.setVolume(Math.max(api.getVolume() - 5/100, 0));
-        break;
-      // F
-      case 70:
-        api.toggleFullscreen();
-        break;
-      // J
-      case 74:
-        this._playSvgBezel(ICON_SEEK_BACK_10);
-        api.seekTo(Math.max(api.getCurrentTime() - 10, 0));
-        break;
-      // L
-      case 76:
-        this._playSvgBezel(ICON_SEEK_FORWARD_10);
-        api.seekTo(Math.min(api.getCurrentTime() + 10, api.getDuration()));
-        break;
-      // M
-      case 77:
+      }
+    });
+    shortcuts.register({
+      id: 'mute',
+      label: "Mute / unmute",
+      bindings: ['M'],
+      execute: () => {
         if (!api.isMuted()) {
           this._playSvgBezel(ICON_VOLUME_MUTE);
           api.mute();
@@ -356,28 +780,111 @@ export class Player extends Component<IPlayerProps, {}> {
           this._playSvgBezel(ICON_VOLUME + " " + ICON_VOLUME_HIGH);
           api.unmute();
         }
-        break;
-      // N
-      case 78:
-        if (e.shiftKey) {
-          api.playNextVideo();
-          break;
+      }
+    });
+    shortcuts.register({
+      id: 'fullscreen',
+      label: "Toggle fullscreen",
+      bindings: ['F'],
+      global: true,
+      execute: () => api.toggleFullscreen()
+    });
+    shortcuts.register({
+      id: 'pictureinpicture',
+      label: "Toggle picture-in-picture",
+      bindings: ['P'],
+      execute: () => api.togglePictureInPicture()
+    });
+    shortcuts.register({
+      id: 'nextvideo',
+      label: "Play next episode",
+      bindings: ['Shift+N'],
+      execute: () => api.playNextVideo()
+    });
+    shortcuts.register({
+      id: 'subtitles',
+      label: "Toggle subtitles",
+      bindings: ['C'],
+      execute: () => this._toggleSubtitles()
+    });
+    shortcuts.register({
+      id: 'subtitledelaydown',
+      label: "Show subtitles 100 ms earlier",
+      bindings: ['Z'],
+      execute: () => this._stepSubtitleDelay(-0.1)
+    });
+    shortcuts.register({
+      id: 'subtitledelayup',
+      label: "Show subtitles 100 ms later",
+      bindings: ['X'],
+      execute: () => this._stepSubtitleDelay(0.1)
+    });
+    shortcuts.register({
+      id: 'transcript',
+      label: "Toggle transcript",
+      bindings: ['T'],
+      execute: () => this._toggleTranscript()
+    });
+    shortcuts.register({
+      id: 'queue',
+      label: "Toggle queue",
+      bindings: ['Q'],
+      execute: () => this._toggleQueue()
+    });
+    shortcuts.register({
+      id: 'speeddown',
+      label: "Decrease playback speed",
+      bindings: ['<'],
+      execute: () => this._stepPlaybackRate(-1)
+    });
+    shortcuts.register({
+      id: 'speedup',
+      label: "Increase playback speed",
+      bindings: ['>'],
+      execute: () => this._stepPlaybackRate(1)
+    });
+    shortcuts.register({
+      id: 'frameback',
+      label: "Previous frame (while paused)",
+      bindings: [','],
+      execute: () => {
+        if (api.getPreferredPlaybackState() !== PlaybackState.PLAYING) {
+          api.stepFrame(-1);
         }
-      // S
-      case 83:
-        this._playSvgBezel(ICON_SEEK_FORWARD);
-        api.seekTo(Math.min(api.getCurrentTime() + 85, api.getDuration()));
-        break;
-      // ,
-      case 188:
-        break;
-      // .
-      case 190:
-        break;
-      default:
-        return;
+      }
+    });
+    shortcuts.register({
+      id: 'frameforward',
+      label: "Next frame (while paused)",
+      bindings: ['.'],
+      execute: () => {
+        if (api.getPreferredPlaybackState() !== PlaybackState.PLAYING) {
+          api.stepFrame(1);
+        }
+      }
+    });
+    shortcuts.register({
+      id: 'help',
+      label: "Show keyboard shortcuts",
+      bindings: ['?'],
+      execute: () => this._shortcutsOverlay.toggle()
+    });
+  }
+
+  private _onKeyDown(e: BrowserEvent) {
+    if (this._shortcutsOverlay.handleKeyDown(e) || this._subtitleStyleOverlay.handleKeyDown(e) || this._transcriptPanel.handleKeyDown(e) || this._queuePanel.handleKeyDown(e)
+        || (this._preferencesOverlay && this._preferencesOverlay.handleKeyDown(e))) {
+      e.preventDefault();
+      return;
+    }
+
+    // Leave the keys to the form controls of the overlays.
+    const element = e.target as HTMLElement;
+    if (element && (element.tagName === 'INPUT' || element.tagName === 'SELECT')) return;
+
+    if (this._shortcuts.handleKeyDown(e)) {
+      e.preventDefault();
     }
-    e.preventDefault();
   }
 
   private _onDocumentKeyDown(e: BrowserEvent) {
@@ -389,27 +896,12 @@ export class Player extends Component<IPlayerProps, {}> {
         return;
     }
 
-    const api = this.getApi();
-    switch (e.keyCode) {
-      // F
-      case 70:
-        api.toggleFullscreen();
-        break;
-      // K
-      case 75:
-        var playing = api.getPreferredPlaybackState() === PlaybackState.PLAYING;
-        if (playing) {
-          this._playSvgBezel(ICON_PAUSE);
-          api.pauseVideo();
-        } else {
-          this._playSvgBezel(ICON_PLAY);
-          api.playVideo();
-        }
-        break;
-      default:
-        return;
+    // Space is left to the page for scrolling.
+    if (getKeyCombination(e) === 'Space') return;
+
+    if (this._shortcuts.handleKeyDown(e, true)) {
+      e.preventDefault();
     }
-    e.preventDefault();
   }
 
   private _onPlaybackStateChange() {
@@ -455,8 +947,111 @@ export class Player extends Component<IPlayerProps, {}> {
     this.resize();
   }
 
+  isMiniPlayer(): boolean {
+    return this._miniPlayer;
+  }
+
+  /**
+   * Set whether the player floats in a corner of the window with compact
+   * controls.
+   * @param mini whether the player is a mini-player.
+   */
+  setMiniPlayer(mini: boolean): void {
+    if (this._miniPlayer === mini) return;
+    this._miniPlayer = mini;
+
+    if (mini) {
+      this.base.classList.add("html5-video-player--mini");
+    } else {
+      this.base.classList.remove("html5-video-player--mini");
+    }
+    this._tooltipComponent.base.style.display = "none";
+    this._updateMiniPlayerLayout();
+
+    this.resize();
+  }
+
+  getMiniPlayerPosition(): IMiniPlayerPosition {
+    return {
+      right: this._miniPlayerPosition.right,
+      bottom: this._miniPlayerPosition.bottom,
+      width: this._miniPlayerPosition.width
+    };
+  }
+
+  setMiniPlayerPosition(position: IMiniPlayerPosition): void {
+    this._miniPlayerPosition = {
+      right: position.right,
+      bottom: position.bottom,
+      width: position.width
+    };
+    this._updateMiniPlayerLayout();
+
+    if (this._miniPlayer) {
+      this.resize();
+    }
+  }
+
+  /**
+   * Positions the mini-player and keeps it inside of the window.
+   */
+  private _updateMiniPlayerLayout(): void {
+    const style = this.base.style;
+    if (!this._miniPlayer) {
+      style.right = "";
+      style.bottom = "";
+      style.width = "";
+      style.height = "";
+      return;
+    }
+
+    const position = this._miniPlayerPosition;
+    const maxWidth = Math.min(window.innerWidth, MAX_MINI_PLAYER_WIDTH);
+    position.width = Math.max(Math.min(position.width, maxWidth), MIN_MINI_PLAYER_WIDTH);
+
+    const height = Math.round(position.width*9/16);
+    position.right = Math.max(Math.min(position.right, window.innerWidth - position.width), 0);
+    position.bottom = Math.max(Math.min(position.bottom, window.innerHeight - height), 0);
+
+    style.right = position.right + "px";
+    style.bottom = position.bottom + "px";
+    style.width = position.width + "px";
+    style.height = height + "px";
+  }
+
+  private _moveMiniPlayer(dx: number, dy: number): void {
+    this._miniPlayerPosition.right -= dx;
+    this._miniPlayerPosition.bottom -= dy;
+    this._updateMiniPlayerLayout();
+  }
+
+  private _resizeMiniPlayer(dx: number, dy: number): void {
+    // The mini-player is resized by its top left corner so that it grows
+    // when the corner is dragged away from the bottom right.
+    const delta = Math.abs(dx) > Math.abs(dy)*16/9 ? dx : dy*16/9;
+    this._miniPlayerPosition.width -= delta;
+    this._updateMiniPlayerLayout();
+
+    this.resize();
+  }
+
+  private _onMiniPlayerMoveEnd(): void {
+    if (this.props.onMiniPlayerPositionChange) {
+      this.props.onMiniPlayerPositionChange(this.getMiniPlayerPosition());
+    }
+  }
+
+  private _onMiniPlayerClose(): void {
+    if (this.props.onMiniPlayerClose) {
+      this.props.onMiniPlayerClose();
+    }
+  }
+
   private _onFullscreenChange() {
     const fullscreen = this._api.isFullscreen();
+    if (fullscreen) {
+      this.setMiniPlayer(false);
+    }
     this.setBigMode(fullscreen);
     if (fullscreen) {
       this.base.classList.add("html5-video-player--fullscreen");
@@ -485,16 +1080,62 @@ export class Player extends Component<IPlayerProps, {}> {
     this._tooltipComponent.setPosition(left, rect.top - size.height);
   }
 
+  /**
+   * Returns the storyboard of the current video. It's created when it's needed
+   * for the first time.
+   */
+  private _getStoryboard(): Storyboard|undefined {
+    const config = this._config;
+    if (!this._storyboard && config && config.url && !this._configCued) {
+      this._storyboard = new Storyboard(config.mediaId || config.url, new HlsSource(config.url));
+      this._storyboardHandler
+        .listen(this._storyboard, 'thumbnailload', this._onThumbnailLoad, false);
+    }
+    return this._storyboard;
+  }
+
+  private _disposeStoryboard(): void {
+    if (!this._storyboard) return;
+
+    this._storyboardHandler.removeAll();
+    this._storyboard.dispose();
+    this._storyboard = undefined;
+  }
+
+  private _onThumbnailLoad() {
+    const hover = this._progressHover;
+    if (hover) {
+      this._onProgressHover(hover.time, hover.percentage);
+    }
+  }
+
   private _onProgressHover(time: number, percentage: number) {
     this.base.classList.add('chrome-progress-bar-hover');
+    this._progressHover = { time: time, percentage: percentage };
 
     const rect = this._tooltipBottomRect;
-    this._setTooltip({
-      text: parseAndFormatTime(time)
-    }, rect.width*percentage + rect.left);
+    const chapter = getChapterAt(this._api.getChapters(), time);
+    const tooltip: IChromeTooltip = {
+      text: chapter ? getChapterLabel(chapter.type) + " · " + parseAndFormatTime(time) : parseAndFormatTime(time)
+    };
+
+    const storyboard = this._getStoryboard();
+    const thumbnail = storyboard ? storyboard.getThumbnail(time) : undefined;
+    if (thumbnail) {
+      const bigMode = this.isBigMode();
+      tooltip.preview = true;
+      tooltip.backgroundImage = {
+        width: bigMode ? 240 : 160,
+        height: bigMode ? 135 : 90,
+        src: thumbnail
+      };
+    }
+
+    this._setTooltip(tooltip, rect.width*percentage + rect.left);
   }
 
   private _onProgressEndHover() {
+    this._progressHover = undefined;
     this.base.classList.remove('chrome-progress-bar-hover');
     this._tooltipComponent.base.style.display = "none";
   }
@@ -545,6 +1186,17 @@ export class Player extends Component<IPlayerProps, {}> {
     this._tooltipComponent.base.style.display = "none";
   }
   
+  private _onPictureInPictureButtonHover() {
+    const btnRect = this._pictureInPictureButtonRect;
+    this._setTooltip({
+      text: this._api.isPictureInPicture() ? 'Exit picture-in-picture' : 'Picture-in-picture'
+    }, btnRect.left + btnRect.width/2);
+  }
+  
+  private _onPictureInPictureButtonEndHover() {
+    this._tooltipComponent.base.style.display = "none";
+  }
+  
   private _onVolumeMuteButtonHover() {
     const btnRect = this._volumeMuteButtonRect;
     this._setTooltip({
@@ -555,6 +1207,108 @@ export class Player extends Component<IPlayerProps, {}> {
   private _onVolumeMuteButtonEndHover() {
     this._tooltipComponent.base.style.display = "none";
   }
+  
+  private _onSubtitlesButtonHover() {
+    const btnRect = this._subtitlesButtonRect;
+    this._setTooltip({
+      text: 'Subtitles'
+    }, btnRect.left + btnRect.width/2);
+  }
+  
+  private _onSubtitlesButtonEndHover() {
+    this._tooltipComponent.base.style.display = "none";
+  }
+  
+  private _onSettingsButtonHover() {
+    const btnRect = this._settingsButtonRect;
+    this._setTooltip({
+      text: 'Settings'
+    }, btnRect.left + btnRect.width/2);
+  }
+  
+  private _onSettingsButtonEndHover() {
+    this._tooltipComponent.base.style.display = "none";
+  }
+
+  private async _loadSubtitleFile(file: File): Promise<void> {
+    try {
+      const track = await createSubtitleTrackFromFile(file);
+
+      const api = this.getApi();
+      api.setSubtitleTrack(api.addSubtitleTrack(track));
+    } catch (e) {
+      this._bezelElement.playText("Unable to load " + file.name);
+    }
+  }
+
+  private async _downloadSubtitles(format: string): Promise<void> {
+    const api = this.getApi();
+    const track = api.getSubtitlesTracks()[api.getSubtitleTrack()];
+    if (!track) return;
+
+    try {
+      let content = await track.getContent();
+      let contentType = 'text/x-ssa';
+      if (format === 'srt') {
+        content = new AssToSrt(content).getContentAsSrt();
+        contentType = 'application/x-subrip';
+      } else if (format === 'vtt') {
+        content = new AssToVtt(content).getContentAsVtt();
+        contentType = 'text/vtt';
+      }
+
+      const config = this._config;
+      const name = (config && (config.filename || config.title)) || "subtitles";
+      downloadText(content, sanitizeFilename(name + " [" + track.label + "]") + "." + format, contentType);
+    } catch (e) {
+      console.error(e);
+    }
+  }
+
+  private _getDroppedSubtitleFile(e: BrowserEvent): File|undefined {
+    const dataTransfer = (e.getBrowserEvent() as DragEvent).dataTransfer;
+    if (!dataTransfer || !dataTransfer.files) return undefined;
+
+    for (let i = 0; i < dataTransfer.files.length; i++) {
+      if (isSubtitleFile(dataTransfer.files[i])) {
+        return dataTransfer.files[i];
+      }
+    }
+    return undefined;
+  }
+
+  private _onDragOver(e: BrowserEvent) {
+    const dataTransfer = (e.getBrowserEvent() as DragEvent).dataTransfer;
+    if (!dataTransfer || Array.prototype.indexOf.call(dataTransfer.types, 'Files') === -1) return;
+
+    // Allow dropping files on the player
+    e.preventDefault();
+    dataTransfer.dropEffect = 'copy';
+  }
+
+  private _onDrop(e: BrowserEvent) {
+    const dataTransfer = (e.getBrowserEvent() as DragEvent).dataTransfer;
+    if (!dataTransfer || Array.prototype.indexOf.call(dataTransfer.types, 'Files') === -1) return;
+
+    // The files can't be told apart while they're dragged, so other files are
+    // ignored instead of being opened by the browser.
+    e.preventDefault();
+
+    const file = this._getDroppedSubtitleFile(e);
+    if (file) {
+      this._loadSubtitleFile(file);
+    }
+  }
+
+  private _onSubtitleFileChange() {
+    const files = this._subtitleFileElement.files;
+    if (files && files.length > 0) {
+      this._loadSubtitleFile(files[0]);
+    }
+
+    // Allow selecting the same file again
+    this._subtitleFileElement.value = '';
+  }
 
   private _onActionMouseDown(e: BrowserEvent) {
     e.preventDefault();
@@ -624,6 +1378,45 @@ export class Player extends Component<IPlayerProps, {}> {
     this.setPreview(false);
   }
 
+  private _onLevelsChange() {
+    if (!this._qualityPending || !this._config) return;
+    const quality = this._config.quality;
+
+    const levels = this._api.getLevels();
+    if (levels.length === 0) return;
+    this._qualityPending = false;
+
+    if (quality === "auto") {
+      this._chromelessPlayer.setLevel(-1);
+      return;
+    }
+
+    for (let i = 0; i < levels.length; i++) {
+      if (levels[i].height + "p" === quality) {
+        this._chromelessPlayer.setLevel(levels[i].id);
+        break;
+      }
+    }
+  }
+
+  private _onAudioTracksChange() {
+    if (!this._audioLanguagePending || !this._config) return;
+    const language = this._config.audioLanguage;
+
+    const tracks = this._api.getAudioTracks();
+    if (tracks.length === 0) return;
+    this._audioLanguagePending = false;
+
+    for (let i = 0; i < tracks.length; i++) {
+      if (tracks[i].language === language) {
+        if (tracks[i].id !== this._api.getAudioTrack()) {
+          this._chromelessPlayer.setAudioTrack(tracks[i].id);
+        }
+        break;
+      }
+    }
+  }
+
   resize() {
     this._chromelessPlayer.resize();
 
@@ -637,8 +1430,14 @@ export class Player extends Component<IPlayerProps, {}> {
       .querySelector(".chrome-size-button")!.getBoundingClientRect();
     const fullscreenButtonRect = this._bottomComponent.base
       .querySelector(".chrome-fullscreen-button")!.getBoundingClientRect();
+    const pictureInPictureButtonRect = this._bottomComponent.base
+      .querySelector(".chrome-pip-button")!.getBoundingClientRect();
     const volumeMuteButtonRect = this._bottomComponent.base
       .querySelector(".chrome-mute-button")!.getBoundingClientRect();
+    const subtitlesButtonRect = this._bottomComponent.base
+      .querySelector(".chrome-subtitles-button")!.getBoundingClientRect();
+    const settingsButtonRect = this._bottomComponent.base
+      .querySelector(".chrome-settings-button")!.getBoundingClientRect();
 
     this._tooltipBottomRect = {
       width: bottomRect.width,
@@ -664,12 +1463,50 @@ export class Player extends Component<IPlayerProps, {}> {
       left: fullscreenButtonRect.left - rect.left,
       top: fullscreenButtonRect.top - rect.top
     };
+    this._pictureInPictureButtonRect = {
+      width: pictureInPictureButtonRect.width,
+      height: pictureInPictureButtonRect.height,
+      left: pictureInPictureButtonRect.left - rect.left,
+      top: pictureInPictureButtonRect.top - rect.top
+    };
     this._volumeMuteButtonRect = {
       width: volumeMuteButtonRect.width,
       height: volumeMuteButtonRect.height,
       left: volumeMuteButtonRect.left - rect.left,
       top: volumeMuteButtonRect.top - rect.top
     };
+    this._subtitlesButtonRect = {
+      width: subtitlesButtonRect.width,
+      height: subtitlesButtonRect.height,
+      left: subtitlesButtonRect.left - rect.left,
+      top: subtitlesButtonRect.top - rect.top
+    };
+    this._settingsButtonRect = {
+      width: settingsButtonRect.width,
+      height: settingsButtonRect.height,
+      left: settingsButtonRect.left - rect.left,
+      top: settingsButtonRect.top - rect.top
+    };
+  }
+
+  private _applyPreference(e: PreferenceChangeEvent): void {
+    switch (e.key) {
+      case 'autoHideDelay':
+        this._autoHideMoveDelay = e.value as number;
+        break;
+      case 'seekStep':
+        this._seekStep = e.value as number;
+        break;
+      case 'longSeekStep':
+        this._longSeekStep = e.value as number;
+        break;
+    }
+  }
+
+  private async _loadPreferences(preferences: IPreferences): Promise<void> {
+    this._autoHideMoveDelay = await preferences.get('autoHideDelay');
+    this._seekStep = await preferences.get('seekStep');
+    this._longSeekStep = await preferences.get('longSeekStep');
   }
 
   componentDidMount() {
@@ -690,6 +1527,9 @@ export class Player extends Component<IPlayerProps, {}> {
       .listen(this.base, 'mousemove', this._onMouseMouse, false)
       .listen(this.base, 'mouseleave', this._onMouseLeave, false)
       .listen(this.base, 'keydown', this._onKeyDown, false)
+      .listen(this.base, 'dragover', this._onDragOver, false)
+      .listen(this.base, 'drop', this._onDrop, false)
+      .listen(this._subtitleFileElement, 'change', this._onSubtitleFileChange, false)
       .listen(document, 'keydown', this._onDocumentKeyDown, false)
       .listen(this._actionElement, 'mousedown', this._onActionMouseDown, false)
       .listen(this._actionElement, 'click', this._onActionClick, false)
@@ -698,11 +1538,26 @@ export class Player extends Component<IPlayerProps, {}> {
       .listen(this._api, 'fullscreenchange', this._onFullscreenChange, false)
       .listen(this._api, 'sizechange', this._onSizeChange, false)
       .listen(this._api, 'loadedmetadata', this._onLoadedMetadata, false)
+      .listen(this._api, 'levelschange', this._onLevelsChange, false)
+      .listen(this._api, 'audiotrackschange', this._onAudioTracksChange, false)
+      .listen(this._api, 'subtitletrackschange', this._onSubtitleTracksChange, false)
+      .listen(this._api, 'subtitletrackchange', this._onSubtitleTracksChange, false)
+      .listen(this._api, 'durationchange', this._updateChapters, false)
+      .listen(this._api, 'chaptermarkschange', this._updateChapters, false)
+      .listen(this._api, 'timeupdate', this._onTimeUpdate, false)
+      .listen(window, "resize", this._updateMiniPlayerLayout, { 'passive': true })
       .listen(window, "resize", this.resize, { 'passive': true });
+
+    if (this.props.preferences) {
+      this._handler.listen(this.props.preferences, 'change', this._applyPreference, false);
+      this._loadPreferences(this.props.preferences);
+    }
   }
 
   componentWillUnmount() {
     this._handler.removeAll();
+    window.clearTimeout(this._chapterDetectionTimer);
+    this._disposeStoryboard();
   }
 
   render(): JSX.Element {
@@ -717,6 +1572,12 @@ export class Player extends Component<IPlayerProps, {}> {
     const tooltipRef = (el: ChromeTooltip) => this._tooltipComponent = el;
     const actionRef = (el: HTMLElement) => this._actionElement = el;
     const bezelRef = (el: BezelComponent) => this._bezelElement = el;
+    const shortcutsOverlayRef = (el: ShortcutsOverlay) => this._shortcutsOverlay = el;
+    const subtitleStyleOverlayRef = (el: SubtitleStyleOverlay) => this._subtitleStyleOverlay = el;
+    const transcriptPanelRef = (el: TranscriptPanel) => this._transcriptPanel = el;
+    const queuePanelRef = (el: QueuePanel) => this._queuePanel = el;
+    const preferencesOverlayRef = (el: PreferencesOverlay) => this._preferencesOverlay = el;
+    const subtitleFileRef = (el: HTMLInputElement) => this._subtitleFileElement = el;
 
     const onProgressHover = (time: number, percentage: number) => this._onProgressHover(time, percentage);
     const onProgressEndHover = () => this._onProgressEndHover();
@@ -726,20 +1587,34 @@ export class Player extends Component<IPlayerProps, {}> {
     const onSizeButtonEndHover = () => this._onSizeButtonEndHover();
     const onFullscreenButtonHover = () => this._onFullscreenButtonHover();
     const onFullscreenButtonEndHover = () => this._onFullscreenButtonEndHover();
+    const onPictureInPictureButtonHover = () => this._onPictureInPictureButtonHover();
+    const onPictureInPictureButtonEndHover = () => this._onPictureInPictureButtonEndHover();
     const onVolumeMuteButtonHover = () => this._onVolumeMuteButtonHover();
     const onVolumeMuteButtonEndHover = () => this._onVolumeMuteButtonEndHover();
+    const onSubtitlesButtonHover = () => this._onSubtitlesButtonHover();
+    const onSubtitlesButtonEndHover = () => this._onSubtitlesButtonEndHover();
+    const onSettingsButtonHover = () => this._onSettingsButtonHover();
+    const onSettingsButtonEndHover = () => this._onSettingsButtonEndHover();
+    const onShortcutsSelect = () => this._shortcutsOverlay.setOpen(true);
+    const onSubtitleFileSelect = () => this._subtitleFileElement.click();
+    const onSubtitlesDownload = (format: string) => this._downloadSubtitles(format);
+    const onSubtitleStyleSelect = () => this._subtitleStyleOverlay.setOpen(true);
+    const onTranscriptSelect = () => this._toggleTranscript();
+    const onQueueSelect = () => this._toggleQueue();
+    const onPreferencesSelect = this.props.preferences ? () => this._preferencesOverlay!.setOpen(true) : undefined;
+    const onChapterMark = (type: 'opening'|'ending', edge: 'start'|'end') => this._markChapter(type, edge);
+    const onChapterMarksClear = () => this._api.setChapterMarks({}, true);
+    const onSkip = (chapter: IChapter) => this._skipChapter(chapter);
+    const onMiniPlayerMove = (dx: number, dy: number) => this._moveMiniPlayer(dx, dy);
+    const onMiniPlayerResize = (dx: number, dy: number) => this._resizeMiniPlayer(dx, dy);
+    const onMiniPlayerMoveEnd = () => this._onMiniPlayerMoveEnd();
+    const onMiniPlayerClose = () => this._onMiniPlayerClose();
     const onCuedThumbnailClick = () => {
-      if (this._config && this._configCued) {
-        this._updateChromelessPlayer(this._config);
-
-        this._cuedThumbnailComponent.setVisible(false);
-
-        this.setPreview(false);
-        this.setAutoHide(true);
-
-        this.resize();
+      if (this._config) {
+        this._playCuedVideo(this._config.resumeTime);
       }
     };
+    const onStartOver = () => this._playCuedVideo(0);
 
     const attributes = {
       'tabindex': '0'
@@ -759,13 +1634,44 @@ export class Player extends Component<IPlayerProps, {}> {
           api={this.getApi() as ChromelessPlayerApi}></ChromelessPlayer>
         <CuedThumbnailComponent
           ref={cuedThumbnailRef}
-          onClick={onCuedThumbnailClick}></CuedThumbnailComponent>
+          onClick={onCuedThumbnailClick}
+          onResume={onCuedThumbnailClick}
+          onStartOver={onStartOver}></CuedThumbnailComponent>
         <BufferComponent api={this.getApi()}></BufferComponent>
         <BezelComponent ref={bezelRef}></BezelComponent>
         <div
           ref={actionRef}
           class="html5-video-action"></div>
         <ChromeTooltip ref={tooltipRef}></ChromeTooltip>
+        <SkipButton
+          api={this.getApi()}
+          onSkip={onSkip}></SkipButton>
+        <EndScreen api={this.getApi()}></EndScreen>
+        <TranscriptPanel
+          ref={transcriptPanelRef}
+          api={this.getApi()}></TranscriptPanel>
+        <QueuePanel
+          ref={queuePanelRef}
+          api={this.getApi()}></QueuePanel>
+        <ShortcutsOverlay
+          ref={shortcutsOverlayRef}
+          shortcuts={this._shortcuts}></ShortcutsOverlay>
+        <SubtitleStyleOverlay
+          ref={subtitleStyleOverlayRef}
+          api={this.getApi()}></SubtitleStyleOverlay>
+        {this.props.preferences ? (
+          <PreferencesOverlay
+            ref={preferencesOverlayRef}
+            api={this.getApi()}
+            preferences={this.props.preferences}
+            onExport={this.props.onBackupExport}
+            onImport={this.props.onBackupImport}></PreferencesOverlay>
+        ) : null}
+        <MiniPlayerComponent
+          onMove={onMiniPlayerMove}
+          onResize={onMiniPlayerResize}
+          onMoveEnd={onMiniPlayerMoveEnd}
+          onClose={onMiniPlayerClose}></MiniPlayerComponent>
         <div class="html5-video-gradient-bottom"></div>
         <ChromeBottomComponent
           ref={bottomRef}
@@ -779,8 +1685,28 @@ export class Player extends Component<IPlayerProps, {}> {
           onSizeButtonEndHover={onSizeButtonEndHover}
           onFullscreenButtonHover={onFullscreenButtonHover}
           onFullscreenButtonEndHover={onFullscreenButtonEndHover}
+          onPictureInPictureButtonHover={onPictureInPictureButtonHover}
+          onPictureInPictureButtonEndHover={onPictureInPictureButtonEndHover}
           onVolumeMuteButtonHover={onVolumeMuteButtonHover}
-          onVolumeMuteButtonEndHover={onVolumeMuteButtonEndHover}></ChromeBottomComponent>
+          onVolumeMuteButtonEndHover={onVolumeMuteButtonEndHover}
+          onSubtitlesButtonHover={onSubtitlesButtonHover}
+          onSubtitlesButtonEndHover={onSubtitlesButtonEndHover}
+          onSettingsButtonHover={onSettingsButtonHover}
+          onSettingsButtonEndHover={onSettingsButtonEndHover}
+          onShortcutsSelect={onShortcutsSelect}
+          onSubtitleFileSelect={onSubtitleFileSelect}
+          onSubtitlesDownload={onSubtitlesDownload}
+          onSubtitleStyleSelect={onSubtitleStyleSelect}
+          onTranscriptSelect={onTranscriptSelect}
+          onQueueSelect={onQueueSelect}
+          onPreferencesSelect={onPreferencesSelect}
+          onChapterMark={onChapterMark}
+          onChapterMarksClear={onChapterMarksClear}></ChromeBottomComponent>
+        <input
+          ref={subtitleFileRef}
+          type="file"
+          accept={SUBTITLE_FILE_EXTENSIONS.join(',')}
+          style="display: none"></input>
       </div>
     );
   }
@@ -0,0 +1,200 @@
+import { EventTarget } from '../../libs/events/EventTarget';
+import { EventHandler } from '../../libs/events/EventHandler';
+import { ISource } from './ISource';
+
+/**
+ * The interval in seconds between two thumbnails.
+ */
+export const THUMBNAIL_INTERVAL = 10;
+
+const THUMBNAIL_WIDTH = 240;
+const THUMBNAIL_HEIGHT = 135;
+
+/**
+ * The time in milliseconds after which a thumbnail that hasn't been captured
+ * is given up.
+ */
+const CAPTURE_TIMEOUT = 10000;
+
+/**
+ * The number of media of which the thumbnails are kept in memory.
+ */
+const MAX_CACHED_MEDIA = 3;
+
+const cache: {[mediaId: string]: string[]} = {};
+const cacheOrder: string[] = [];
+
+/**
+ * Returns the cached thumbnails of a media. The least recently used media are
+ * removed from the cache.
+ */
+function getCachedThumbnails(mediaId: string): string[] {
+  const index = cacheOrder.indexOf(mediaId);
+  if (index !== -1) {
+    cacheOrder.splice(index, 1);
+  }
+  cacheOrder.push(mediaId);
+
+  if (!cache.hasOwnProperty(mediaId)) {
+    cache[mediaId] = [];
+  }
+
+  while (cacheOrder.length > MAX_CACHED_MEDIA) {
+    delete cache[cacheOrder.shift()!];
+  }
+
+  return cache[mediaId];
+}
+
+/**
+ * Captures the thumbnails of a video on demand by seeking a hidden video
+ * element that plays the lowest quality level of the source.
+ *
+ * Dispatches `thumbnailload` when a thumbnail has been captured.
+ */
+export class Storyboard extends EventTarget {
+  private _source: ISource;
+  private _videoElement: HTMLVideoElement;
+  private _canvasElement: HTMLCanvasElement;
+  private _handler = new EventHandler(this);
+
+  private _thumbnails: string[];
+  private _ready: boolean = false;
+  private _failed: boolean = false;
+
+  /**
+   * The index of the thumbnail that's being captured.
+   */
+  private _pending: number|undefined = undefined;
+
+  /**
+   * The index of the thumbnail that's captured next.
+   */
+  private _requested: number|undefined = undefined;
+  private _timeoutTimer: number|undefined = undefined;
+
+  /**
+   * @param mediaId the ID of the media that the thumbnails are cached by.
+   * @param source the source of the video. It's disposed together with the
+   * storyboard.
+   */
+  constructor(mediaId: string, source: ISource) {
+    super();
+
+    this._thumbnails = getCachedThumbnails(mediaId);
+    this._source = source;
+
+    this._videoElement = document.createElement('video');
+    this._videoElement.muted = true;
+    this._videoElement.preload = 'auto';
+
+    this._canvasElement = document.createElement('canvas');
+    this._canvasElement.width = THUMBNAIL_WIDTH;
+    this._canvasElement.height = THUMBNAIL_HEIGHT;
+
+    this._handler
+      .listen(this._source, 'levelschange', this._onLevelsChange, false)
+      .listen(this._videoElement, 'loadedmetadata', this._onLoadedMetadata, false)
+      .listen(this._videoElement, 'seeked', this._onSeeked, false)
+      .listen(this._videoElement, 'error', this._onError, false);
+
+    this._source.attach(this._videoElement);
+  }
+
+  protected disposeInternal() {
+    super.disposeInternal();
+
+    window.clearTimeout(this._timeoutTimer);
+    this._handler.dispose();
+    this._source.detach();
+    this._source.dispose();
+    this._videoElement.removeAttribute('src');
+  }
+
+  /**
+   * Returns the thumbnail at a time as a data URL. If it hasn't been captured
+   * yet it's captured next and undefined is returned.
+   * @param time the time in seconds.
+   */
+  getThumbnail(time: number): string|undefined {
+    const index = Math.max(Math.floor(time/THUMBNAIL_INTERVAL), 0);
+    if (this._thumbnails[index]) return this._thumbnails[index];
+    if (this._failed) return undefined;
+
+    this._requested = index;
+    if (this._pending === undefined) {
+      this._captureNext();
+    }
+
+    return undefined;
+  }
+
+  private _onLevelsChange() {
+    // Thumbnails don't need more than the lowest quality.
+    const levels = this._source.getLevels()
+      .sort((a, b) => (a.height - b.height) || (a.bitrate - b.bitrate));
+    if (levels.length > 0) {
+      this._source.setLevel(levels[0].id);
+    }
+  }
+
+  private _onLoadedMetadata() {
+    this._ready = true;
+    this._captureNext();
+  }
+
+  private _onError() {
+    this._failed = true;
+    this._pending = undefined;
+    this._requested = undefined;
+    window.clearTimeout(this._timeoutTimer);
+  }
+
+  private _captureNext() {
+    if (!this._ready || this._failed) return;
+
+    const index = this._requested;
+    this._requested = undefined;
+    if (index === undefined) return;
+    if (this._thumbnails[index]) {
+      this._captureNext();
+      return;
+    }
+
+    const time = index*THUMBNAIL_INTERVAL;
+    if (time >= this._videoElement.duration) return;
+
+    this._pending = index;
+    this._videoElement.currentTime = time;
+
+    window.clearTimeout(this._timeoutTimer);
+    this._timeoutTimer = window.setTimeout(() => {
+      this._pending = undefined;
+      this._captureNext();
+    }, CAPTURE_TIMEOUT);
+  }
+
+  private _onSeeked() {
+    const index = this._pending;
+    if (index === undefined) return;
+
+    this._pending = undefined;
+    window.clearTimeout(this._timeoutTimer);
+
+    try {
+      const context = this._canvasElement.getContext('2d');
+      if (!context) throw new Error("Canvas is not supported.");
+
+      context.drawImage(this._videoElement, 0, 0, THUMBNAIL_WIDTH, THUMBNAIL_HEIGHT);
+      this._thumbnails[index] = this._canvasElement.toDataURL('image/jpeg', 0.7);
+    } catch (e) {
+      // The canvas is tainted or can't be used at all.
+      console.error(e);
+      this._onError();
+      return;
+    }
+
+    this.dispatchEvent('thumbnailload');
+    this._captureNext();
+  }
+}
\ No newline at end of file
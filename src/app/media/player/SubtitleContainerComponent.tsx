@@ -13,13 +13,31 @@ export class SubtitleContainerComponent extends Component<ISubtitleContainerProp
   constructor() {
     super();
   }
+
+  /**
+   * Replaces the element of the previous engine if the engine has changed.
+   */
+  private _updateElement() {
+    const element = this.props.engine.getElement();
+    if (this.base.firstChild === element) return;
+
+    while (this.base.firstChild) {
+      this.base.removeChild(this.base.firstChild);
+    }
+    this.base.appendChild(element);
+  }
+
+  componentDidMount() {
+    this._updateElement();
+  }
+
+  componentDidUpdate() {
+    this._updateElement();
+  }
   
   render(props: ISubtitleContainerProps): JSX.Element {
-    const ref = (element: HTMLElement) => {
-      element.appendChild(props.engine.getElement());
-    };
     return (
-      <div class="html5-subtitle-container" ref={ ref }></div>
+      <div class="html5-subtitle-container"></div>
     );
   }
 }
\ No newline at end of file
@@ -21,9 +21,11 @@ export class BezelComponent extends Component<{}, {}> {
     this._handler.removeAll();
   }
 
-  play(element: JSX.Element): void {
+  play(element: JSX.Element, wide: boolean = false): void {
     this.stop();
 
+    this.base.className = "chrome-bezel" + (wide ? " chrome-bezel-wide" : "");
+
     this._iconElement.innerHTML = "";
     render(element, this._iconElement);
 
@@ -44,6 +46,15 @@ export class BezelComponent extends Component<{}, {}> {
     this.play(el);
   }
 
+  playText(text: string): void {
+    const el = (
+      <div class="chrome-bezel-text">{text}</div>
+    );
+
+    // Longer texts don't fit into the round bezel.
+    this.play(el, text.length > 5);
+  }
+
   stop(): void {
     this.base.style.display = "none";
   }
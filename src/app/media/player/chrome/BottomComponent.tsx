@@ -8,6 +8,12 @@ import { VolumeMuteButton } from "./VolumeMuteButton";
 import { TimeDisplay } from "./TimeDisplay";
 import { SizeButton } from "./SizeButton";
 import { FullscreenButton } from "./FullscreenButton";
+import { PictureInPictureButton } from "./PictureInPictureButton";
+import { SettingsButton } from "./SettingsButton";
+import { SettingsMenu } from "./SettingsMenu";
+import { SubtitlesButton } from "./SubtitlesButton";
+import { EventHandler } from "../../../libs/events/EventHandler";
+import { BrowserEvent } from "../../../libs/events/BrowserEvent";
 
 export interface IChromeBottomProps {
   api: IPlayerApi;
@@ -20,14 +26,34 @@ export interface IChromeBottomProps {
   onSizeButtonEndHover: () => void;
   onFullscreenButtonHover: () => void;
   onFullscreenButtonEndHover: () => void;
+  onPictureInPictureButtonHover: () => void;
+  onPictureInPictureButtonEndHover: () => void;
   onVolumeMuteButtonHover: () => void;
   onVolumeMuteButtonEndHover: () => void;
+  onSubtitlesButtonHover: () => void;
+  onSubtitlesButtonEndHover: () => void;
+  onSettingsButtonHover: () => void;
+  onSettingsButtonEndHover: () => void;
+  onShortcutsSelect?: () => void;
+  onSubtitleFileSelect?: () => void;
+  onSubtitlesDownload?: (format: string) => void;
+  onSubtitleStyleSelect?: () => void;
+  onTranscriptSelect?: () => void;
+  onQueueSelect?: () => void;
+  onPreferencesSelect?: () => void;
+  onChapterMark?: (type: 'opening'|'ending', edge: 'start'|'end') => void;
+  onChapterMarksClear?: () => void;
 }
 
 export class ChromeBottomComponent extends Component<IChromeBottomProps, {}> {
   private _progressBar: ChromeProgressBarComponent;
 
   private _volumeSlider: VolumeSliderComponent;
+  private _subtitlesButton: SubtitlesButton;
+  private _settingsButton: SettingsButton;
+  private _settingsMenu: SettingsMenu;
+
+  private _handler = new EventHandler(this);
   
   private _volumeSliderFocus: boolean = false;
   private _volumeSliderMouse: boolean = false;
@@ -62,22 +88,75 @@ export class ChromeBottomComponent extends Component<IChromeBottomProps, {}> {
     }
   }
 
+  private _onSettingsOpenChange(open: boolean) {
+    this._settingsButton.setExpanded(open);
+
+    if (open) {
+      this.base.classList.add('chrome-settings-menu-active');
+    } else {
+      this.base.classList.remove('chrome-settings-menu-active');
+    }
+  }
+
+  private _onDocumentMouseDown(e: BrowserEvent) {
+    if (!this._settingsMenu.isOpen()) return;
+
+    const target = e.target as Node;
+    if (this._settingsMenu.base.contains(target) || this._settingsButton.base.contains(target)
+      || this._subtitlesButton.base.contains(target)) return;
+
+    this._settingsMenu.setOpen(false);
+  }
+
   setInternalVisibility(visiblity: boolean): void {
     this._progressBar.setInternalVisibility(visiblity);
+
+    if (!visiblity) {
+      this._settingsMenu.setOpen(false);
+    }
+  }
+
+  componentDidMount() {
+    this._handler
+      .listen(document, 'mousedown', this._onDocumentMouseDown, false);
+  }
+
+  componentWillUnmount() {
+    this._handler.removeAll();
   }
 
   render(props: IChromeBottomProps): JSX.Element {
     const progressBarRef = (el: ChromeProgressBarComponent) => this._progressBar = el;
     const volumeSliderRef = (el: VolumeSliderComponent) => this._volumeSlider = el;
+    const subtitlesButtonRef = (el: SubtitlesButton) => this._subtitlesButton = el;
+    const settingsButtonRef = (el: SettingsButton) => this._settingsButton = el;
+    const settingsMenuRef = (el: SettingsMenu) => this._settingsMenu = el;
     
     const onVolumeFocus = () => this._onVolumeFocus();
     const onVolumeBlur = () => this._onVolumeBlur();
 
     const onLeftMouseLeave = () => this._onLeftMouseLeave();
     const onVolumeMouseEnter = () => this._onVolumeMouseEnter();
+
+    const onSubtitlesClick = () => this._settingsMenu.togglePage("Subtitles");
+    const onSettingsClick = () => this._settingsMenu.toggle();
+    const onSettingsOpenChange = (open: boolean) => this._onSettingsOpenChange(open);
     
     return (
       <div class="html5-video-chrome-bottom">
+        <SettingsMenu
+          ref={settingsMenuRef}
+          api={props.api}
+          onOpenChange={onSettingsOpenChange}
+          onShortcutsSelect={props.onShortcutsSelect}
+          onSubtitleFileSelect={props.onSubtitleFileSelect}
+          onSubtitlesDownload={props.onSubtitlesDownload}
+          onSubtitleStyleSelect={props.onSubtitleStyleSelect}
+          onTranscriptSelect={props.onTranscriptSelect}
+          onQueueSelect={props.onQueueSelect}
+          onPreferencesSelect={props.onPreferencesSelect}
+          onChapterMark={props.onChapterMark}
+          onChapterMarksClear={props.onChapterMarksClear}></SettingsMenu>
         <ChromeProgressBarComponent
           ref={progressBarRef}
           api={props.api}
@@ -106,6 +185,22 @@ export class ChromeBottomComponent extends Component<IChromeBottomProps, {}> {
             <TimeDisplay api={props.api}></TimeDisplay>
           </div>
           <div class="chrome-controls__right">
+            <SubtitlesButton
+              ref={subtitlesButtonRef}
+              api={props.api}
+              onClick={onSubtitlesClick}
+              onHover={props.onSubtitlesButtonHover}
+              onEndHover={props.onSubtitlesButtonEndHover}></SubtitlesButton>
+            <SettingsButton
+              ref={settingsButtonRef}
+              api={props.api}
+              onClick={onSettingsClick}
+              onHover={props.onSettingsButtonHover}
+              onEndHover={props.onSettingsButtonEndHover}></SettingsButton>
+            <PictureInPictureButton
+              api={props.api}
+              onHover={props.onPictureInPictureButtonHover}
+              onEndHover={props.onPictureInPictureButtonEndHover}></PictureInPictureButton>
             <SizeButton
               api={props.api}
               visible={props.sizeButtonVisible}
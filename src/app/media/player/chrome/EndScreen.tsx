@@ -0,0 +1,158 @@
+import { h, Component } from "preact";
+import { IPlayerApi, PlaybackState, TimeUpdateEvent } from "../IPlayerApi";
+import { EventHandler } from "../../../libs/events/EventHandler";
+import { getChapterAt } from "../Chapters";
+import { parseAndFormatTime } from "../../../utils/time";
+
+export interface IEndScreenProps {
+  api: IPlayerApi;
+}
+
+export interface IEndScreenState {
+  /**
+   * Whether the countdown runs because the video has ended or because its
+   * ending is playing.
+   */
+  mode?: 'ended'|'ending';
+  remaining?: number;
+}
+
+/**
+ * Counts down to the next video when the video has ended or its ending is
+ * playing.
+ */
+export class EndScreen extends Component<IEndScreenProps, IEndScreenState> {
+  private _handler = new EventHandler(this);
+  private _timer: number|undefined = undefined;
+
+  /**
+   * Whether the countdown has been cancelled. It's not started again until
+   * the next video is loaded.
+   */
+  private _cancelled: boolean = false;
+
+  private _start(mode: 'ended'|'ending') {
+    const countdown = this.props.api.getAutoplayCountdown();
+    if (this._cancelled || countdown <= 0 || !this.props.api.getNextVideoDetail()) return;
+
+    if (this.state.mode) {
+      if (this.state.mode !== mode) {
+        this.setState({ mode: mode });
+      }
+      return;
+    }
+
+    this.setState({ mode: mode, remaining: countdown });
+
+    window.clearInterval(this._timer);
+    this._timer = window.setInterval(() => this._tick(), 1000);
+  }
+
+  private _stop() {
+    window.clearInterval(this._timer);
+    this._timer = undefined;
+
+    if (this.state.mode) {
+      this.setState({ mode: undefined, remaining: undefined });
+    }
+  }
+
+  private _tick() {
+    const { mode, remaining = 0 } = this.state;
+
+    // The countdown of the ending only runs while the ending is playing.
+    if (mode === 'ending' && this.props.api.getPlaybackState() !== PlaybackState.PLAYING) return;
+
+    if (remaining > 1) {
+      this.setState({ remaining: remaining - 1 });
+    } else {
+      this._playNow();
+    }
+  }
+
+  private _cancel() {
+    this._cancelled = true;
+    this._stop();
+  }
+
+  private _playNow() {
+    this._stop();
+    this.props.api.playNextVideo();
+  }
+
+  private _onPlaybackStateChange() {
+    const state = this.props.api.getPlaybackState();
+    if (state === PlaybackState.ENDED) {
+      this._start('ended');
+    } else if (this.state.mode === 'ended' && state === PlaybackState.PLAYING) {
+      this._stop();
+    }
+  }
+
+  private _onTimeUpdate(e: TimeUpdateEvent) {
+    const chapter = getChapterAt(this.props.api.getChapters(), e.time);
+    const ending = !!chapter && chapter.type === 'ending';
+
+    if (ending && this.props.api.getPlaybackState() === PlaybackState.PLAYING) {
+      this._start('ending');
+    } else if (!ending && this.state.mode === 'ending') {
+      this._stop();
+    }
+  }
+
+  private _onNextVideoChange() {
+    this._cancelled = false;
+    this._stop();
+  }
+
+  private _onAutoplayCountdownChange() {
+    if (this.props.api.getAutoplayCountdown() <= 0) {
+      this._stop();
+    }
+  }
+
+  componentDidMount() {
+    this._handler
+      .listen(this.props.api, 'playbackstatechange', this._onPlaybackStateChange, false)
+      .listen(this.props.api, 'timeupdate', this._onTimeUpdate, false)
+      .listen(this.props.api, 'nextvideochange', this._onNextVideoChange, false)
+      .listen(this.props.api, 'autoplaycountdownchange', this._onAutoplayCountdownChange, false);
+  }
+
+  componentWillUnmount() {
+    this._handler.removeAll();
+    window.clearInterval(this._timer);
+  }
+
+  render(props: IEndScreenProps, { mode, remaining }: IEndScreenState): JSX.Element {
+    const detail = props.api.getNextVideoDetail();
+    if (!mode || !detail) {
+      return <div class="chrome-end-screen" style="display: none;"></div>;
+    }
+
+    const onCancel = () => this._cancel();
+    const onPlayNow = () => this._playNow();
+
+    const thumbnailStyle = detail.thumbnailUrl ? "background-image: url(\"" + detail.thumbnailUrl + "\")" : "";
+
+    return (
+      <div class={"chrome-end-screen chrome-end-screen--" + mode}>
+        <div class="chrome-end-screen-card">
+          <div class="chrome-end-screen-header">Up next in {remaining}</div>
+          <div class="chrome-end-screen-video" onClick={onPlayNow}>
+            <div class="chrome-end-screen-thumbnail" style={thumbnailStyle}>
+              {typeof detail.duration !== 'number' || !isFinite(detail.duration) ? "" : (
+                <span class="chrome-end-screen-duration">{parseAndFormatTime(detail.duration)}</span>
+              )}
+            </div>
+            <div class="chrome-end-screen-title">{detail.title}</div>
+          </div>
+          <div class="chrome-end-screen-buttons">
+            <button class="chrome-button chrome-end-screen-button" onClick={onCancel}>Cancel</button>
+            <button class="chrome-button chrome-end-screen-button chrome-end-screen-button--primary" onClick={onPlayNow}>Play now</button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+}
\ No newline at end of file
@@ -0,0 +1,99 @@
+import { h, Component } from "preact";
+import { EventHandler } from "../../../libs/events/EventHandler";
+import { BrowserEvent } from "../../../libs/events/BrowserEvent";
+
+const CLOSE_PATH = "M 26,11.41 24.59,10 18,16.59 11.41,10 10,11.41 16.59,18 10,24.59 11.41,26 18,19.41 24.59,26 26,24.59 19.41,18 z";
+
+export interface IMiniPlayerProps {
+  /**
+   * Called while the mini-player is dragged by its header.
+   * @param dx the horizontal distance since the last call.
+   * @param dy the vertical distance since the last call.
+   */
+  onMove: (dx: number, dy: number) => void;
+
+  /**
+   * Called while the mini-player is resized by its top left corner.
+   * @param dx the horizontal distance since the last call.
+   * @param dy the vertical distance since the last call.
+   */
+  onResize: (dx: number, dy: number) => void;
+
+  /**
+   * Called when dragging or resizing has ended.
+   */
+  onMoveEnd: () => void;
+  onClose: () => void;
+}
+
+/**
+ * The header of the mini-player that's used to move, resize and close it.
+ */
+export class MiniPlayerComponent extends Component<IMiniPlayerProps, {}> {
+  private _handler = new EventHandler(this);
+  private _headerElement: HTMLElement;
+  private _resizeElement: HTMLElement;
+
+  private _dragging: 'move'|'resize'|undefined = undefined;
+  private _lastX: number = 0;
+  private _lastY: number = 0;
+
+  private _onMouseDown(e: BrowserEvent) {
+    if (e.button !== 0 || this._dragging) return;
+    if (e.target !== this._headerElement && e.target !== this._resizeElement) return;
+    e.preventDefault();
+
+    this._dragging = e.target === this._resizeElement ? 'resize' : 'move';
+    this._lastX = e.clientX;
+    this._lastY = e.clientY;
+  }
+
+  private _onMouseMove(e: BrowserEvent) {
+    if (!this._dragging) return;
+
+    const dx = e.clientX - this._lastX;
+    const dy = e.clientY - this._lastY;
+    this._lastX = e.clientX;
+    this._lastY = e.clientY;
+
+    if (this._dragging === 'resize') {
+      this.props.onResize(dx, dy);
+    } else {
+      this.props.onMove(dx, dy);
+    }
+  }
+
+  private _onMouseUp(e: BrowserEvent) {
+    if (e.button !== 0 || !this._dragging) return;
+    this._dragging = undefined;
+
+    this.props.onMoveEnd();
+  }
+
+  componentDidMount() {
+    this._handler
+      .listen(this.base, 'mousedown', this._onMouseDown, false)
+      .listen(document, 'mousemove', this._onMouseMove, { passive: true })
+      .listen(document, 'mouseup', this._onMouseUp, false);
+  }
+
+  componentWillUnmount() {
+    this._handler.removeAll();
+  }
+
+  render(props: IMiniPlayerProps): JSX.Element {
+    const headerRef = (el: HTMLElement) => this._headerElement = el;
+    const resizeRef = (el: HTMLElement) => this._resizeElement = el;
+
+    return (
+      <div class="chrome-mini-player" ref={headerRef}>
+        <div class="chrome-mini-player__resize" ref={resizeRef}></div>
+        <button class="chrome-button chrome-mini-player__close" onClick={props.onClose}>
+          <svg width="100%" height="100%" version="1.1" viewBox="0 0 36 36">
+            <path d={CLOSE_PATH} fill="#ffffff"></path>
+          </svg>
+        </button>
+      </div>
+    );
+  }
+}
\ No newline at end of file
@@ -0,0 +1,70 @@
+import { h, Component } from "preact";
+import { IPlayerApi } from "../IPlayerApi";
+import { EventHandler } from "../../../libs/events/EventHandler";
+
+const ENTER_PATH = "m 25,17 h -8 v 6 h 8 z m 4,8 V 10.98 C 29,9.88 28.1,9 27,9 H 9 C 7.9,9 7,9.88 7,10.98 V 25 c 0,1.1 .9,2 2,2 h 18 c 1.1,0 2,-0.9 2,-2 z m -2,.02 H 9 V 10.97 h 18 z";
+const EXIT_PATH = "m 25,17 h -8 v 6 h 8 z m 4,8 V 10.98 C 29,9.88 28.1,9 27,9 H 9 C 7.9,9 7,9.88 7,10.98 V 25 c 0,1.1 .9,2 2,2 h 18 c 1.1,0 2,-0.9 2,-2 z m -2,.02 H 9 V 10.97 h 18 z m -16,-12 h 4 v 4 h -4 z";
+
+export interface IPictureInPictureButtonProps {
+  api: IPlayerApi;
+  onHover?: () => void;
+  onEndHover?: () => void;
+}
+
+export interface IPictureInPictureButtonState {
+  pictureInPicture?: boolean;
+}
+
+export class PictureInPictureButton extends Component<IPictureInPictureButtonProps, IPictureInPictureButtonState> {
+  private _handler = new EventHandler(this);
+
+  private _isEnabled(): boolean {
+    return this.props.api.isPictureInPictureEnabled();
+  }
+
+  private _onClick() {
+    this.props.api.togglePictureInPicture();
+  }
+
+  private _onPictureInPictureChange() {
+    this.setState({ pictureInPicture: this.props.api.isPictureInPicture() });
+  }
+
+  private _onMouseOver() {
+    if (this.props.onHover) {
+      this.props.onHover();
+    }
+  }
+
+  private _onMouseOut() {
+    if (this.props.onEndHover) {
+      this.props.onEndHover();
+    }
+  }
+
+  componentDidMount() {
+    this._handler
+      .listen(this.props.api, 'pictureinpicturechange', this._onPictureInPictureChange, false)
+      .listen(this.base, 'mouseover', this._onMouseOver, { passive: true })
+      .listen(this.base, 'mouseout', this._onMouseOut, { passive: true });
+  }
+
+  componentWillUnmount() {
+    this._handler.removeAll();
+  }
+
+  render({}: IPictureInPictureButtonProps, { pictureInPicture = false }: IPictureInPictureButtonState): JSX.Element {
+    const onClick = () => this._onClick();
+
+    const d = pictureInPicture ? EXIT_PATH : ENTER_PATH;
+    const className = "chrome-button chrome-pip-button" + (this._isEnabled() ? "" : " chrome-pip-button--hidden");
+
+    return (
+      <button class={className} onClick={onClick}>
+        <svg width="100%" height="100%" version="1.1" viewBox="0 0 36 36">
+          <path d={d} fill-rule="evenodd" fill="#ffffff"></path>
+        </svg>
+      </button>
+    );
+  }
+}
\ No newline at end of file
@@ -0,0 +1,329 @@
+import { h, Component } from "preact";
+import { IPlayerApi, PLAYBACK_RATES, AUTOPLAY_COUNTDOWNS, SubtitleRenderer } from "../IPlayerApi";
+import { EventHandler } from "../../../libs/events/EventHandler";
+import { BrowserEvent } from "../../../libs/events/BrowserEvent";
+import { getKeyCombination } from "../KeyboardShortcuts";
+import { IPreferences, IPreferenceValues, PreferenceKey } from "../../../preferences/IPreferences";
+import { getSubtitleRendererLabel, getPlaybackRateLabel, getAutoplayCountdownLabel } from "./SettingsMenu";
+
+export interface IPreferencesOverlayProps {
+  api: IPlayerApi;
+  preferences: IPreferences;
+  onOpenChange?: (open: boolean) => void;
+
+  /**
+   * Called when a backup of the extension data should be downloaded. The
+   * promise rejects with an error message if the export failed.
+   */
+  onExport?: () => Promise<void>;
+
+  /**
+   * Called when a backup file has been selected for import. The promise
+   * rejects with an error message if the import failed.
+   * @param file the backup file.
+   * @param overwrite whether the data that isn't in the backup is removed.
+   */
+  onImport?: (file: File, overwrite: boolean) => Promise<void>;
+}
+
+export interface IPreferencesOverlayState {
+  open?: boolean;
+  values?: IPreferenceValues;
+
+  /**
+   * Whether the data that isn't in an imported backup is removed.
+   */
+  overwrite?: boolean;
+
+  /**
+   * The error of the last export or import.
+   */
+  backupError?: string;
+}
+
+interface IPreferenceOption {
+  label: string;
+  value: any;
+}
+
+/**
+ * The preferences that are edited in the overlay. The others are changed
+ * directly in the player.
+ */
+const EDITABLE_KEYS: PreferenceKey[] = [
+  'autoplay', 'qualityLevel', 'playbackRate', 'autoplayCountdown', 'autoSkip',
+  'subtitleLanguage', 'subtitleRenderer', 'autoHideDelay', 'seekStep',
+  'longSeekStep', 'miniPlayer'
+];
+
+const QUALITIES: IPreferenceOption[] = ["auto", "1080p", "720p", "480p", "360p", "240p"]
+  .map(quality => ({ label: quality === "auto" ? "Auto" : quality, value: quality }));
+
+const PLAYBACK_RATE_OPTIONS: IPreferenceOption[] = PLAYBACK_RATES
+  .map(rate => ({ label: getPlaybackRateLabel(rate), value: rate }));
+
+const AUTOPLAY_COUNTDOWN_OPTIONS: IPreferenceOption[] = AUTOPLAY_COUNTDOWNS
+  .map(countdown => ({ label: getAutoplayCountdownLabel(countdown), value: countdown }));
+
+const SUBTITLE_RENDERERS: IPreferenceOption[] = (['libass', 'basic'] as SubtitleRenderer[])
+  .map(renderer => ({ label: getSubtitleRendererLabel(renderer), value: renderer }));
+
+const AUTO_HIDE_DELAYS: IPreferenceOption[] = [1000, 2000, 3000, 5000, 10000]
+  .map(delay => ({ label: delay/1000 + " seconds", value: delay }));
+
+const SEEK_STEPS: IPreferenceOption[] = [1, 2, 5, 10, 15, 30]
+  .map(step => ({ label: step + " seconds", value: step }));
+
+const LONG_SEEK_STEPS: IPreferenceOption[] = [5, 10, 15, 30, 60, 90]
+  .map(step => ({ label: step + " seconds", value: step }));
+
+export class PreferencesOverlay extends Component<IPreferencesOverlayProps, IPreferencesOverlayState> {
+  private _handler = new EventHandler(this);
+  private _fileElement: HTMLInputElement|undefined;
+
+  isOpen(): boolean {
+    return !!this.state.open;
+  }
+
+  setOpen(open: boolean): void {
+    if (this.isOpen() === open) return;
+
+    this.setState({ open: open });
+    if (open) {
+      this._load();
+    }
+
+    if (this.props.onOpenChange) {
+      this.props.onOpenChange(open);
+    }
+  }
+
+  /**
+   * Handles a keydown event while the overlay is open. Returns whether the
+   * event has been consumed by the overlay.
+   */
+  handleKeyDown(e: BrowserEvent): boolean {
+    if (!this.isOpen()) return false;
+
+    if (getKeyCombination(e) === 'Escape') {
+      this.setOpen(false);
+      return true;
+    }
+
+    return false;
+  }
+
+  private async _load(): Promise<void> {
+    const values = await this.props.preferences.getAll();
+    this.setState({ values: values });
+  }
+
+  private _onChange() {
+    if (!this.isOpen()) return;
+
+    this._load();
+  }
+
+  /**
+   * Sets a preference and shows the stored value again if it can't be set.
+   */
+  private async _set<K extends PreferenceKey>(key: K, value: IPreferenceValues[K]): Promise<void> {
+    try {
+      await this.props.preferences.set(key, value);
+    } catch (e) {
+      await this._load();
+    }
+  }
+
+  private async _reset(): Promise<void> {
+    for (let i = 0; i < EDITABLE_KEYS.length; i++) {
+      await this.props.preferences.reset(EDITABLE_KEYS[i]);
+    }
+  }
+
+  private async _onFileChange(): Promise<void> {
+    if (!this._fileElement || !this.props.onImport) return;
+
+    const files = this._fileElement.files;
+    const file = files && files.length > 0 ? files[0] : undefined;
+
+    // Allow selecting the same file again
+    this._fileElement.value = '';
+    if (!file) return;
+
+    this.setState({ backupError: undefined });
+    try {
+      await this.props.onImport(file, !!this.state.overwrite);
+    } catch (e) {
+      this.setState({ backupError: e instanceof Error ? e.message : String(e) });
+    }
+  }
+
+  private async _export(): Promise<void> {
+    if (!this.props.onExport) return;
+
+    this.setState({ backupError: undefined });
+    try {
+      await this.props.onExport();
+    } catch (e) {
+      this.setState({ backupError: e instanceof Error ? e.message : String(e) });
+    }
+  }
+
+  /**
+   * Returns the subtitle languages of the video together with the language
+   * that's currently preferred.
+   */
+  private _getSubtitleLanguages(current: string|undefined): IPreferenceOption[] {
+    const options: IPreferenceOption[] = [
+      { label: "Default", value: undefined },
+      { label: "Off", value: "off" }
+    ];
+
+    const languages = this.props.api.getSubtitlesTracks()
+      .map(track => track.language);
+    if (current && current !== "off") {
+      languages.push(current);
+    }
+
+    for (let i = 0; i < languages.length; i++) {
+      const language = languages[i];
+      if (!language || options.some(option => option.value === language)) continue;
+
+      options.push({ label: language, value: language });
+    }
+    return options;
+  }
+
+  componentDidMount() {
+    this._handler
+      .listen(this.props.preferences, 'change', this._onChange, false);
+    if (this._fileElement) {
+      this._handler.listen(this._fileElement, 'change', this._onFileChange, false);
+    }
+  }
+
+  componentWillUnmount() {
+    this._handler.removeAll();
+  }
+
+  private _renderSelect<K extends PreferenceKey>(label: string, key: K, options: IPreferenceOption[], values: IPreferenceValues): JSX.Element {
+    const value = values[key];
+    if (!options.some(option => option.value === value)) {
+      options = options.concat([{ label: value === undefined ? "Default" : String(value), value: value }]);
+    }
+
+    const onChange = (e: Event) => {
+      const option = options[(e.target as HTMLSelectElement).selectedIndex];
+      this._set(key, option.value as IPreferenceValues[K]);
+    };
+
+    return (
+      <label class="chrome-preference">
+        <span class="chrome-preference-label">{label}</span>
+        <select class="chrome-preference-select" onChange={onChange}>
+          {options.map(option => (
+            <option selected={option.value === value}>{option.label}</option>
+          ))}
+        </select>
+      </label>
+    );
+  }
+
+  private _renderCheckbox(label: string, key: 'autoplay'|'autoSkip'|'miniPlayer', values: IPreferenceValues): JSX.Element {
+    const onChange = (e: Event) => this._set(key, (e.target as HTMLInputElement).checked);
+
+    return (
+      <label class="chrome-preference">
+        <span class="chrome-preference-label">{label}</span>
+        <input type="checkbox" checked={values[key]} onChange={onChange}></input>
+      </label>
+    );
+  }
+
+  private _renderBackup(overwrite: boolean, backupError?: string): JSX.Element|null {
+    const { onExport, onImport } = this.props;
+    if (!onExport && !onImport) return null;
+
+    const onExportClick = () => this._export();
+    const onImportClick = () => {
+      if (this._fileElement) {
+        this._fileElement.click();
+      }
+    };
+    const onOverwriteChange = (e: Event) => this.setState({ overwrite: (e.target as HTMLInputElement).checked });
+
+    return (
+      <div>
+        <div class="chrome-preferences-section">Backup</div>
+        {onImport ? (
+          <label class="chrome-preference">
+            <span class="chrome-preference-label">Remove data that isn't in the imported backup</span>
+            <input type="checkbox" checked={overwrite} onChange={onOverwriteChange}></input>
+          </label>
+        ) : null}
+        <div class="chrome-preference">
+          <span class="chrome-preference-label">Settings, history and queue</span>
+          {onExport ? <button class="chrome-button chrome-overlay-button" onClick={onExportClick}>Export</button> : null}
+          {onImport ? <button class="chrome-button chrome-overlay-button" onClick={onImportClick}>Import</button> : null}
+        </div>
+        {backupError ? <div class="chrome-preferences-error">{backupError}</div> : null}
+      </div>
+    );
+  }
+
+  render(props: IPreferencesOverlayProps, { open = false, values, overwrite = false, backupError }: IPreferencesOverlayState): JSX.Element {
+    const style = open ? "" : "display: none;";
+
+    const onCloseClick = () => this.setOpen(false);
+    const onResetClick = () => this._reset();
+    const fileRef = (el: HTMLInputElement) => this._fileElement = el;
+
+    const attributes = {
+      'tabindex': '-1'
+    };
+
+    let list: JSX.Element|undefined = undefined;
+    if (open && values) {
+      list = (
+        <div class="chrome-preferences-list">
+          <div class="chrome-preferences-section">Playback</div>
+          {this._renderCheckbox("Autoplay", 'autoplay', values)}
+          {this._renderSelect("Quality", 'qualityLevel', QUALITIES, values)}
+          {this._renderSelect("Speed", 'playbackRate', PLAYBACK_RATE_OPTIONS, values)}
+          {this._renderSelect("Autoplay next episode", 'autoplayCountdown', AUTOPLAY_COUNTDOWN_OPTIONS, values)}
+          {this._renderCheckbox("Skip opening and ending", 'autoSkip', values)}
+          <div class="chrome-preferences-section">Subtitles</div>
+          {this._renderSelect("Language", 'subtitleLanguage', this._getSubtitleLanguages(values.subtitleLanguage), values)}
+          {this._renderSelect("Renderer", 'subtitleRenderer', SUBTITLE_RENDERERS, values)}
+          <div class="chrome-preferences-section">Controls</div>
+          {this._renderSelect("Hide controls after", 'autoHideDelay', AUTO_HIDE_DELAYS, values)}
+          {this._renderSelect("Seek step (← →)", 'seekStep', SEEK_STEPS, values)}
+          {this._renderSelect("Long seek step (J L)", 'longSeekStep', LONG_SEEK_STEPS, values)}
+          {this._renderCheckbox("Mini-player when scrolled away", 'miniPlayer', values)}
+          {this._renderBackup(overwrite, backupError)}
+        </div>
+      );
+    }
+
+    return (
+      <div class="chrome-overlay chrome-preferences-overlay" style={style} role="dialog" aria-label="Preferences" {...attributes}>
+        <div class="chrome-overlay-panel">
+          <div class="chrome-overlay-header">
+            <div class="chrome-overlay-title">Preferences</div>
+            <button class="chrome-button chrome-overlay-close" onClick={onCloseClick} aria-label="Close">×</button>
+          </div>
+          {list}
+          <div class="chrome-overlay-footer">
+            <button class="chrome-button chrome-overlay-button" onClick={onResetClick}>Reset to defaults</button>
+          </div>
+        </div>
+        <input
+          ref={fileRef}
+          type="file"
+          accept=".json,application/json"
+          style="display: none"></input>
+      </div>
+    );
+  }
+}
\ No newline at end of file
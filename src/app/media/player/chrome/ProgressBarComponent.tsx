@@ -42,6 +42,13 @@ export class ChromeProgressBarComponent extends Component<IChromeProgressBarProp
   private _onDurationChange(e: DurationChangeEvent) {
     this._duration = e.duration;
     this._updateState();
+
+    // Reposition the chapter gaps.
+    this.forceUpdate();
+  }
+
+  private _onChaptersChange() {
+    this.forceUpdate();
   }
 
   private _onTimeUpdate(e: TimeUpdateEvent) {
@@ -151,6 +158,7 @@ export class ChromeProgressBarComponent extends Component<IChromeProgressBarProp
       .listen(this.props.api, 'durationchange', this._onDurationChange, false)
       .listen(this.props.api, 'timeupdate', this._onTimeUpdate, false)
       .listen(this.props.api, 'progress', this._onProgress, false)
+      .listen(this.props.api, 'chapterschange', this._onChaptersChange, false)
       .listen(this.props.api, 'resize', this._onResize, false);
     this._updateState();
   }
@@ -159,6 +167,18 @@ export class ChromeProgressBarComponent extends Component<IChromeProgressBarProp
     this._handler.removeAll();
   }
 
+  private _renderChapterGaps(): JSX.Element[] {
+    const duration = this._duration;
+    if (!(duration > 0)) return [];
+
+    return this.props.api.getChapters()
+      .filter(chapter => chapter.start > 0)
+      .map(chapter => {
+        const style = "left: " + chapter.start/duration*100 + "%;";
+        return <div class="chrome-chapter-gap" style={style}></div>;
+      });
+  }
+
   render(): JSX.Element {
     const containerRef = (el: HTMLElement) => this._containerElement = el;
     const progressBarRef = (el: HTMLElement) => this._progressBarElement = el;
@@ -185,6 +205,7 @@ export class ChromeProgressBarComponent extends Component<IChromeProgressBarProp
             <div class="chrome-play-progress chrome-swatch-background-color" ref={playRef}></div>
             <div class="chrome-load-progress" ref={loadRef}></div>
             <div class="chrome-hover-progress chrome-hover-progress--light" ref={hoverRef}></div>
+            {this._renderChapterGaps()}
           </div>
           <div class="chrome-scrubber-container" ref={scrubberRef}>
             <div class="chrome-scrubber-button chrome-swatch-background-color">
@@ -0,0 +1,160 @@
+import { h, Component } from "preact";
+import { IPlayerApi, IVideoDetail } from "../IPlayerApi";
+import { EventHandler } from "../../../libs/events/EventHandler";
+import { BrowserEvent } from "../../../libs/events/BrowserEvent";
+import { getKeyCombination } from "../KeyboardShortcuts";
+import { parseAndFormatTime } from "../../../utils/time";
+
+export interface IQueuePanelProps {
+  api: IPlayerApi;
+  onOpenChange?: (open: boolean) => void;
+}
+
+export interface IQueuePanelState {
+  open?: boolean;
+}
+
+/**
+ * A panel that lists the queued videos and lets the user play, reorder and
+ * remove them.
+ */
+export class QueuePanel extends Component<IQueuePanelProps, IQueuePanelState> {
+  private _handler = new EventHandler(this);
+
+  isOpen(): boolean {
+    return !!this.state.open;
+  }
+
+  setOpen(open: boolean): void {
+    if (this.isOpen() === open) return;
+
+    this.setState({ open: open });
+
+    if (this.props.onOpenChange) {
+      this.props.onOpenChange(open);
+    }
+  }
+
+  toggle(): void {
+    this.setOpen(!this.isOpen());
+  }
+
+  /**
+   * Handles a keydown event while the panel is open. Returns whether the event
+   * has been consumed by the panel.
+   */
+  handleKeyDown(e: BrowserEvent): boolean {
+    if (!this.isOpen() || getKeyCombination(e) !== 'Escape') return false;
+
+    this.setOpen(false);
+    return true;
+  }
+
+  private _onPlay(detail: IVideoDetail) {
+    const api = this.props.api;
+    api.setNextVideoDetail(detail);
+    api.playNextVideo();
+  }
+
+  private _onMove(index: number, offset: number) {
+    const queue = this.props.api.getQueue().slice();
+    const target = index + offset;
+    if (target < 0 || target >= queue.length) return;
+
+    const item = queue[index];
+    queue[index] = queue[target];
+    queue[target] = item;
+
+    this.props.api.setQueue(queue);
+  }
+
+  private _onRemove(index: number) {
+    const queue = this.props.api.getQueue().slice();
+    queue.splice(index, 1);
+
+    this.props.api.setQueue(queue);
+  }
+
+  private _onClear() {
+    this.props.api.setQueue([]);
+  }
+
+  private _onQueueChange() {
+    if (this.isOpen()) {
+      this.forceUpdate();
+    }
+  }
+
+  componentDidMount() {
+    this._handler
+      .listen(this.props.api, 'queuechange', this._onQueueChange, false);
+  }
+
+  componentWillUnmount() {
+    this._handler.removeAll();
+  }
+
+  private _renderItems(queue: IVideoDetail[]): JSX.Element {
+    if (queue.length === 0) {
+      return <div class="chrome-queue-empty">Add episodes to the queue from the page to watch them next</div>;
+    }
+
+    const items: JSX.Element[] = [];
+    for (let i = 0; i < queue.length; i++) {
+      const detail = queue[i];
+
+      const onPlay = () => this._onPlay(detail);
+      const onMoveUp = () => this._onMove(i, -1);
+      const onMoveDown = () => this._onMove(i, 1);
+      const onRemove = () => this._onRemove(i);
+
+      const thumbnailStyle = detail.thumbnailUrl ? "background-image: url(\"" + detail.thumbnailUrl + "\")" : "";
+
+      items.push(
+        <div class="chrome-queue-item">
+          <div class="chrome-queue-video" role="button" onClick={onPlay}>
+            <div class="chrome-queue-thumbnail" style={thumbnailStyle}>
+              {typeof detail.duration !== 'number' || !isFinite(detail.duration) ? "" : (
+                <span class="chrome-queue-duration">{parseAndFormatTime(detail.duration)}</span>
+              )}
+            </div>
+            <div class="chrome-queue-detail">
+              <div class="chrome-queue-title">{detail.title}</div>
+              {detail.seriesTitle ? <div class="chrome-queue-series">{detail.seriesTitle}</div> : null}
+            </div>
+          </div>
+          <div class="chrome-queue-actions">
+            <button class="chrome-button chrome-queue-action" onClick={onMoveUp} aria-label="Move up" disabled={i === 0}>▲</button>
+            <button class="chrome-button chrome-queue-action" onClick={onMoveDown} aria-label="Move down" disabled={i === queue.length - 1}>▼</button>
+            <button class="chrome-button chrome-queue-action" onClick={onRemove} aria-label="Remove">×</button>
+          </div>
+        </div>
+      );
+    }
+    return <div>{items}</div>;
+  }
+
+  render(props: IQueuePanelProps, { open = false }: IQueuePanelState): JSX.Element {
+    const style = open ? "" : "display: none;";
+
+    const onCloseClick = () => this.setOpen(false);
+    const onClearClick = () => this._onClear();
+
+    const queue = props.api.getQueue();
+
+    return (
+      <div class="chrome-queue-panel" style={style} role="complementary" aria-label="Queue">
+        <div class="chrome-overlay-header">
+          <div class="chrome-overlay-title">Queue</div>
+          {queue.length > 0 ? (
+            <button class="chrome-button chrome-overlay-button" onClick={onClearClick}>Clear</button>
+          ) : null}
+          <button class="chrome-button chrome-overlay-close" onClick={onCloseClick} aria-label="Close">×</button>
+        </div>
+        <div class="chrome-queue-list">
+          {open ? this._renderItems(queue) : null}
+        </div>
+      </div>
+    );
+  }
+}
\ No newline at end of file
@@ -0,0 +1,59 @@
+import { h, Component } from "preact";
+import { IPlayerApi } from "../IPlayerApi";
+import { EventHandler } from "../../../libs/events/EventHandler";
+import { ICON_SETTINGS } from "../assets";
+
+export interface ISettingsButtonProps {
+  api: IPlayerApi;
+  onClick?: () => void;
+  onHover?: () => void;
+  onEndHover?: () => void;
+}
+
+export class SettingsButton extends Component<ISettingsButtonProps, {}> {
+  private _handler = new EventHandler(this);
+
+  setExpanded(expanded: boolean): void {
+    this.base.setAttribute('aria-expanded', expanded ? 'true' : 'false');
+  }
+
+  private _onClick() {
+    if (this.props.onClick) {
+      this.props.onClick();
+    }
+  }
+
+  private _onMouseOver() {
+    if (this.props.onHover) {
+      this.props.onHover();
+    }
+  }
+
+  private _onMouseOut() {
+    if (this.props.onEndHover) {
+      this.props.onEndHover();
+    }
+  }
+
+  componentDidMount() {
+    this._handler
+      .listen(this.base, 'mouseover', this._onMouseOver, { passive: true })
+      .listen(this.base, 'mouseout', this._onMouseOut, { passive: true });
+  }
+
+  componentWillUnmount() {
+    this._handler.removeAll();
+  }
+
+  render(): JSX.Element {
+    const onClick = () => this._onClick();
+
+    return (
+      <button class="chrome-button chrome-settings-button" onClick={onClick} aria-haspopup="true" aria-expanded="false">
+        <svg width="100%" height="100%" version="1.1" viewBox="0 0 36 36">
+          <path d={ICON_SETTINGS} fill="#ffffff"></path>
+        </svg>
+      </button>
+    );
+  }
+}
\ No newline at end of file
@@ -0,0 +1,599 @@
+import { h, Component } from "preact";
+import { IPlayerApi, PLAYBACK_RATES, AUTOPLAY_COUNTDOWNS, SubtitleRenderer } from "../IPlayerApi";
+import { EventHandler } from "../../../libs/events/EventHandler";
+import { ISourceLevel, ISourceAudioTrack } from "../ISource";
+import { parseAndFormatTime } from "../../../utils/time";
+
+export interface ISettingsMenuOption {
+  label: string;
+  detail?: string;
+  selected?: boolean;
+  onSelect: () => void;
+}
+
+export interface ISettingsMenuItem {
+  label: string;
+  content?: string;
+  options?: ISettingsMenuOption[];
+  onSelect?: () => void;
+}
+
+export interface ISettingsMenuProps {
+  api: IPlayerApi;
+  onOpenChange?: (open: boolean) => void;
+  onShortcutsSelect?: () => void;
+  onSubtitleFileSelect?: () => void;
+  onSubtitlesDownload?: (format: string) => void;
+  onSubtitleStyleSelect?: () => void;
+  onTranscriptSelect?: () => void;
+  onQueueSelect?: () => void;
+  onPreferencesSelect?: () => void;
+  onChapterMark?: (type: 'opening'|'ending', edge: 'start'|'end') => void;
+  onChapterMarksClear?: () => void;
+}
+
+export interface ISettingsMenuState {
+  open?: boolean;
+  page?: string;
+}
+
+export function getLevelLabel(level: ISourceLevel): string {
+  if (level.height) {
+    return level.height + "p";
+  }
+  if (level.name) {
+    return level.name;
+  }
+  return Math.round(level.bitrate/1000) + " kbps";
+}
+
+export function getAudioTrackLabel(track: ISourceAudioTrack): string {
+  return track.label || track.language || "Track " + (track.id + 1);
+}
+
+export function getSubtitleRendererLabel(renderer: SubtitleRenderer): string {
+  return renderer === 'basic' ? "Basic" : "Full";
+}
+
+export function getPlaybackRateLabel(rate: number): string {
+  return rate === 1 ? "Normal" : rate + "x";
+}
+
+export function getAutoplayCountdownLabel(countdown: number): string {
+  return countdown === 0 ? "Off" : countdown + " seconds";
+}
+
+function getLevelDetail(level: ISourceLevel): string {
+  const details: string[] = [];
+  if (level.width && level.height) {
+    details.push(level.width + "×" + level.height);
+  }
+  if (level.bitrate) {
+    details.push(Math.round(level.bitrate/1000) + " kbps");
+  }
+  if (level.codecs) {
+    details.push(level.codecs);
+  }
+  return details.join(" · ");
+}
+
+export class SettingsMenu extends Component<ISettingsMenuProps, ISettingsMenuState> {
+  private _handler = new EventHandler(this);
+
+  isOpen(): boolean {
+    return !!this.state.open;
+  }
+
+  setOpen(open: boolean): void {
+    if (this.isOpen() === open) return;
+
+    this.setState({ open: open, page: undefined });
+
+    if (this.props.onOpenChange) {
+      this.props.onOpenChange(open);
+    }
+  }
+
+  toggle(): void {
+    this.setOpen(!this.isOpen());
+  }
+
+  /**
+   * Opens the menu on the page of an item or closes it if it's already open on
+   * that page.
+   * @param label the label of the item.
+   */
+  togglePage(label: string): void {
+    if (this.isOpen() && this.state.page === label) {
+      this.setOpen(false);
+      return;
+    }
+
+    this.setOpen(true);
+    this.setState({ page: label });
+  }
+
+  private _onChange() {
+    if (!this.isOpen()) return;
+
+    this.forceUpdate();
+  }
+
+  private _getQualityItem(): ISettingsMenuItem|undefined {
+    const api = this.props.api;
+    const levels = api.getLevels()
+      .sort((a, b) => (b.height - a.height) || (b.bitrate - a.bitrate));
+    if (levels.length === 0) return undefined;
+
+    const selected = api.getLevel();
+    const current = levels.filter(level => level.id === api.getCurrentLevel())[0];
+
+    const options: ISettingsMenuOption[] = levels.map(level => {
+      return {
+        label: getLevelLabel(level),
+        detail: getLevelDetail(level),
+        selected: level.id === selected,
+        onSelect: () => api.setLevel(level.id)
+      } as ISettingsMenuOption;
+    });
+    options.push({
+      label: "Auto",
+      detail: selected === -1 && current ? getLevelLabel(current) : undefined,
+      selected: selected === -1,
+      onSelect: () => api.setLevel(-1)
+    });
+
+    let content: string;
+    if (selected === -1) {
+      content = "Auto" + (current ? " (" + getLevelLabel(current) + ")" : "");
+    } else {
+      const level = levels.filter(level => level.id === selected)[0];
+      content = level ? getLevelLabel(level) : "";
+    }
+
+    return {
+      label: "Quality",
+      content: content,
+      options: options
+    };
+  }
+
+  private _getAudioTrackItem(): ISettingsMenuItem|undefined {
+    const api = this.props.api;
+    const tracks = api.getAudioTracks();
+    if (tracks.length < 2) return undefined;
+
+    const selected = api.getAudioTrack();
+
+    const options: ISettingsMenuOption[] = tracks.map(track => {
+      return {
+        label: getAudioTrackLabel(track),
+        detail: track.label && track.language ? track.language : undefined,
+        selected: track.id === selected,
+        onSelect: () => api.setAudioTrack(track.id)
+      } as ISettingsMenuOption;
+    });
+
+    const track = tracks.filter(track => track.id === selected)[0];
+
+    return {
+      label: "Audio",
+      content: track ? getAudioTrackLabel(track) : "",
+      options: options
+    };
+  }
+
+  private _getSubtitlesItem(): ISettingsMenuItem|undefined {
+    const api = this.props.api;
+    const tracks = api.getSubtitlesTracks();
+    if (tracks.length === 0) return undefined;
+
+    const selected = api.getSubtitleTrack();
+
+    const options: ISettingsMenuOption[] = tracks.map((track, index) => {
+      return {
+        label: track.label,
+        selected: index === selected,
+        onSelect: () => api.setSubtitleTrack(index)
+      } as ISettingsMenuOption;
+    });
+    options.unshift({
+      label: "Off",
+      selected: selected === -1,
+      onSelect: () => api.setSubtitleTrack(-1)
+    });
+
+    return {
+      label: "Subtitles",
+      content: selected === -1 || !tracks[selected] ? "Off" : tracks[selected].label,
+      options: options
+    };
+  }
+
+  private _getSubtitlesDownloadItem(): ISettingsMenuItem|undefined {
+    const onDownload = this.props.onSubtitlesDownload;
+    if (!onDownload || this.props.api.getSubtitleTrack() === -1) return undefined;
+
+    const formats = [
+      { label: "Advanced SubStation Alpha", format: "ass" },
+      { label: "SubRip", format: "srt" },
+      { label: "WebVTT", format: "vtt" }
+    ];
+
+    return {
+      label: "Download subtitles",
+      options: formats.map(f => {
+        return {
+          label: f.label,
+          detail: "." + f.format,
+          onSelect: () => onDownload(f.format)
+        } as ISettingsMenuOption;
+      })
+    };
+  }
+
+  private _getSecondarySubtitlesItem(): ISettingsMenuItem|undefined {
+    const api = this.props.api;
+    const tracks = api.getSubtitlesTracks();
+    const current = api.getSubtitleTrack();
+    if (tracks.length < 2 || current === -1) return undefined;
+
+    const selected = api.getSecondarySubtitleTrack();
+
+    const options: ISettingsMenuOption[] = [];
+    options.push({
+      label: "Off",
+      selected: selected === -1,
+      onSelect: () => api.setSecondarySubtitleTrack(-1)
+    });
+    tracks.forEach((track, index) => {
+      if (index === current) return;
+
+      options.push({
+        label: track.label,
+        selected: index === selected,
+        onSelect: () => api.setSecondarySubtitleTrack(index)
+      });
+    });
+
+    return {
+      label: "Secondary subtitles",
+      content: selected === -1 || selected === current || !tracks[selected] ? "Off" : tracks[selected].label,
+      options: options
+    };
+  }
+
+  private _getSubtitleRendererItem(): ISettingsMenuItem {
+    const api = this.props.api;
+    const renderer = api.getSubtitleRenderer();
+
+    const renderers: SubtitleRenderer[] = ['libass', 'basic'];
+    const options: ISettingsMenuOption[] = renderers.map(r => {
+      return {
+        label: getSubtitleRendererLabel(r),
+        detail: r === 'basic' ? "For slow devices" : undefined,
+        selected: r === renderer,
+        onSelect: () => api.setSubtitleRenderer(r)
+      } as ISettingsMenuOption;
+    });
+
+    return {
+      label: "Subtitle renderer",
+      content: getSubtitleRendererLabel(renderer),
+      options: options
+    };
+  }
+
+  private _getAutoplayItem(): ISettingsMenuItem {
+    const api = this.props.api;
+    const countdown = api.getAutoplayCountdown();
+
+    const options: ISettingsMenuOption[] = AUTOPLAY_COUNTDOWNS.map(c => {
+      return {
+        label: getAutoplayCountdownLabel(c),
+        selected: c === countdown,
+        onSelect: () => api.setAutoplayCountdown(c)
+      } as ISettingsMenuOption;
+    });
+
+    return {
+      label: "Autoplay next episode",
+      content: getAutoplayCountdownLabel(countdown),
+      options: options
+    };
+  }
+
+  private _getAutoSkipItem(): ISettingsMenuItem {
+    const api = this.props.api;
+    const autoSkip = api.isAutoSkip();
+
+    return {
+      label: "Skip opening and ending",
+      content: autoSkip ? "On" : "Off",
+      options: [
+        {
+          label: "On",
+          selected: autoSkip,
+          onSelect: () => api.setAutoSkip(true)
+        },
+        {
+          label: "Off",
+          selected: !autoSkip,
+          onSelect: () => api.setAutoSkip(false)
+        }
+      ]
+    };
+  }
+
+  private _getChapterMarksItem(): ISettingsMenuItem|undefined {
+    const onMark = this.props.onChapterMark;
+    if (!onMark) return undefined;
+
+    const marks = this.props.api.getChapterMarks();
+    const formatMark = (time: number|undefined) => time === undefined ? undefined : parseAndFormatTime(time);
+
+    const options: ISettingsMenuOption[] = [
+      {
+        label: "Opening starts here",
+        detail: formatMark(marks.opening && marks.opening.start),
+        onSelect: () => onMark('opening', 'start')
+      },
+      {
+        label: "Opening ends here",
+        detail: formatMark(marks.opening && marks.opening.end),
+        onSelect: () => onMark('opening', 'end')
+      },
+      {
+        label: "Ending starts here",
+        detail: formatMark(marks.ending && marks.ending.start),
+        onSelect: () => onMark('ending', 'start')
+      },
+      {
+        label: "Ending ends here",
+        detail: formatMark(marks.ending && marks.ending.end),
+        onSelect: () => onMark('ending', 'end')
+      }
+    ];
+
+    const onClear = this.props.onChapterMarksClear;
+    if (onClear && (marks.opening || marks.ending)) {
+      options.push({
+        label: "Clear marks",
+        onSelect: onClear
+      });
+    }
+
+    return {
+      label: "Mark chapters",
+      content: marks.opening || marks.ending ? "Marked" : "",
+      options: options
+    };
+  }
+
+  private _getSpeedItem(): ISettingsMenuItem {
+    const api = this.props.api;
+    const rate = api.getPlaybackRate();
+
+    const options: ISettingsMenuOption[] = PLAYBACK_RATES.map(r => {
+      return {
+        label: getPlaybackRateLabel(r),
+        selected: r === rate,
+        onSelect: () => api.setPlaybackRate(r)
+      } as ISettingsMenuOption;
+    });
+
+    return {
+      label: "Speed",
+      content: getPlaybackRateLabel(rate),
+      options: options
+    };
+  }
+
+  private _getItems(): ISettingsMenuItem[] {
+    const items: ISettingsMenuItem[] = [];
+
+    const quality = this._getQualityItem();
+    if (quality) {
+      items.push(quality);
+    }
+
+    const subtitles = this._getSubtitlesItem();
+    if (subtitles) {
+      items.push(subtitles);
+    }
+
+    if (this.props.onSubtitleFileSelect) {
+      items.push({
+        label: "Load subtitle file…",
+        onSelect: this.props.onSubtitleFileSelect
+      });
+    }
+
+    const secondarySubtitles = this._getSecondarySubtitlesItem();
+    if (secondarySubtitles) {
+      items.push(secondarySubtitles);
+    }
+
+    if (subtitles && this.props.onSubtitleStyleSelect) {
+      items.push({
+        label: "Subtitle style",
+        onSelect: this.props.onSubtitleStyleSelect
+      });
+    }
+
+    if (subtitles) {
+      items.push(this._getSubtitleRendererItem());
+    }
+
+    if (subtitles && this.props.onTranscriptSelect) {
+      items.push({
+        label: "Transcript",
+        onSelect: this.props.onTranscriptSelect
+      });
+    }
+
+    const subtitlesDownload = this._getSubtitlesDownloadItem();
+    if (subtitlesDownload) {
+      items.push(subtitlesDownload);
+    }
+
+    const audioTrack = this._getAudioTrackItem();
+    if (audioTrack) {
+      items.push(audioTrack);
+    }
+
+    items.push(this._getSpeedItem());
+
+    items.push(this._getAutoSkipItem());
+
+    if (this.props.api.getNextVideoDetail()) {
+      items.push(this._getAutoplayItem());
+    }
+
+    const chapterMarks = this._getChapterMarksItem();
+    if (chapterMarks) {
+      items.push(chapterMarks);
+    }
+
+    if (this.props.onQueueSelect) {
+      const queue = this.props.api.getQueue();
+      items.push({
+        label: "Queue",
+        content: queue.length > 0 ? queue.length.toString() : "",
+        onSelect: this.props.onQueueSelect
+      });
+    }
+
+    if (this.props.onPreferencesSelect) {
+      items.push({
+        label: "Preferences",
+        onSelect: this.props.onPreferencesSelect
+      });
+    }
+
+    if (this.props.onShortcutsSelect) {
+      items.push({
+        label: "Keyboard shortcuts",
+        onSelect: this.props.onShortcutsSelect
+      });
+    }
+
+    return items;
+  }
+
+  private _onItemClick(item: ISettingsMenuItem) {
+    if (item.options) {
+      this.setState({ page: item.label });
+    } else if (item.onSelect) {
+      item.onSelect();
+      this.setOpen(false);
+    }
+  }
+
+  private _onOptionClick(option: ISettingsMenuOption) {
+    option.onSelect();
+    this.setState({ page: undefined });
+  }
+
+  componentDidMount() {
+    this._handler
+      .listen(this.props.api, 'levelschange', this._onChange, false)
+      .listen(this.props.api, 'levelchange', this._onChange, false)
+      .listen(this.props.api, 'levelswitch', this._onChange, false)
+      .listen(this.props.api, 'audiotrackschange', this._onChange, false)
+      .listen(this.props.api, 'audiotrackchange', this._onChange, false)
+      .listen(this.props.api, 'ratechange', this._onChange, false)
+      .listen(this.props.api, 'subtitletrackschange', this._onChange, false)
+      .listen(this.props.api, 'subtitletrackchange', this._onChange, false)
+      .listen(this.props.api, 'secondarysubtitletrackchange', this._onChange, false)
+      .listen(this.props.api, 'subtitlerendererchange', this._onChange, false)
+      .listen(this.props.api, 'chaptermarkschange', this._onChange, false)
+      .listen(this.props.api, 'autoskipchange', this._onChange, false)
+      .listen(this.props.api, 'autoplaycountdownchange', this._onChange, false)
+      .listen(this.props.api, 'nextvideochange', this._onChange, false)
+      .listen(this.props.api, 'queuechange', this._onChange, false);
+  }
+
+  componentWillUnmount() {
+    this._handler.removeAll();
+  }
+
+  private _renderItems(items: ISettingsMenuItem[]): JSX.Element {
+    if (items.length === 0) {
+      return (
+        <div class="chrome-panel-menu" role="menu">
+          <div class="chrome-menuitem" aria-disabled="true">
+            <div class="chrome-menuitem-label">No settings available</div>
+          </div>
+        </div>
+      );
+    }
+
+    return (
+      <div class="chrome-panel-menu" role="menu">
+        {items.map(item => {
+          const onClick = () => this._onItemClick(item);
+          const attributes: {[key: string]: string} = {};
+          if (item.options) {
+            attributes['aria-haspopup'] = "true";
+          }
+          return (
+            <div class="chrome-menuitem" role="menuitem" onClick={onClick} {...attributes}>
+              <div class="chrome-menuitem-label">{item.label}</div>
+              <div class="chrome-menuitem-content">{item.content || ""}</div>
+            </div>
+          );
+        })}
+      </div>
+    );
+  }
+
+  private _renderOptions(item: ISettingsMenuItem): JSX.Element {
+    const onBack = () => this.setState({ page: undefined });
+    const options = item.options || [];
+
+    return (
+      <div>
+        <div class="chrome-panel-header">
+          <button class="chrome-button chrome-panel-title" onClick={onBack}>{item.label}</button>
+        </div>
+        <div class="chrome-panel-menu" role="menu">
+          {options.map(option => {
+            const onClick = () => this._onOptionClick(option);
+            return (
+              <div
+                class="chrome-menuitem"
+                role="menuitemradio"
+                aria-checked={option.selected ? "true" : "false"}
+                onClick={onClick}>
+                <div class="chrome-menuitem-label">
+                  {option.label}
+                  {option.detail ? <span class="chrome-menuitem-detail">{option.detail}</span> : null}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    );
+  }
+
+  render(props: ISettingsMenuProps, { open = false, page }: ISettingsMenuState): JSX.Element {
+    const style = open ? "" : "display: none;";
+
+    let panel: JSX.Element|undefined = undefined;
+    if (open) {
+      const items = this._getItems();
+      const item = items.filter(item => item.label === page)[0];
+      panel = item ? this._renderOptions(item) : this._renderItems(items);
+    }
+
+    return (
+      <div class="chrome-popup chrome-settings-menu" style={style}>
+        <div class="chrome-panel">
+          {panel}
+        </div>
+      </div>
+    );
+  }
+}
\ No newline at end of file
@@ -0,0 +1,161 @@
+import { h, Component } from "preact";
+import { EventHandler } from "../../../libs/events/EventHandler";
+import { BrowserEvent } from "../../../libs/events/BrowserEvent";
+import { KeyboardShortcuts, IShortcutAction, getKeyCombination, formatKeyCombination } from "../KeyboardShortcuts";
+
+export interface IShortcutsOverlayProps {
+  shortcuts: KeyboardShortcuts;
+  onOpenChange?: (open: boolean) => void;
+}
+
+export interface IShortcutsOverlayState {
+  open?: boolean;
+
+  /**
+   * The ID of the action that's waiting for a new key combination.
+   */
+  recording?: string;
+}
+
+export class ShortcutsOverlay extends Component<IShortcutsOverlayProps, IShortcutsOverlayState> {
+  private _handler = new EventHandler(this);
+
+  isOpen(): boolean {
+    return !!this.state.open;
+  }
+
+  setOpen(open: boolean): void {
+    if (this.isOpen() === open) return;
+
+    this.setState({ open: open, recording: undefined });
+
+    if (this.props.onOpenChange) {
+      this.props.onOpenChange(open);
+    }
+  }
+
+  toggle(): void {
+    this.setOpen(!this.isOpen());
+  }
+
+  /**
+   * Handles a keydown event while the overlay is open. Returns whether the
+   * event has been consumed by the overlay.
+   */
+  handleKeyDown(e: BrowserEvent): boolean {
+    if (!this.isOpen()) return false;
+
+    const combination = getKeyCombination(e);
+    const recording = this.state.recording;
+    if (recording) {
+      if (!combination) return true;
+
+      if (combination !== 'Escape') {
+        this.props.shortcuts.addBinding(recording, combination);
+      }
+      this.setState({ recording: undefined });
+
+      return true;
+    }
+
+    if (combination === 'Escape') {
+      this.setOpen(false);
+      return true;
+    }
+
+    return false;
+  }
+
+  private _onChange() {
+    if (!this.isOpen()) return;
+
+    this.forceUpdate();
+  }
+
+  private _onRecordClick(action: IShortcutAction) {
+    this.setState({ recording: action.id });
+
+    // Keep the focus inside of the player to receive the key combination.
+    this.base.focus();
+  }
+
+  componentDidMount() {
+    this._handler
+      .listen(this.props.shortcuts, 'change', this._onChange, false);
+  }
+
+  componentWillUnmount() {
+    this._handler.removeAll();
+  }
+
+  private _renderBindings(action: IShortcutAction, recording: boolean): JSX.Element {
+    const shortcuts = this.props.shortcuts;
+    const onRecordClick = () => this._onRecordClick(action);
+
+    return (
+      <div class="chrome-shortcut-bindings">
+        {shortcuts.getBindings(action.id).map(combination => {
+          const conflicts = shortcuts.getConflicts(combination, action.id);
+          const onRemoveClick = () => shortcuts.removeBinding(action.id, combination);
+
+          let className = "chrome-shortcut-key";
+          const attributes: {[key: string]: string} = {};
+          if (conflicts.length > 0) {
+            className += " chrome-shortcut-key--conflict";
+            attributes['title'] = "Also bound to " + conflicts.map(a => a.label).join(", ");
+          }
+
+          return (
+            <span class={className} {...attributes}>
+              <kbd>{formatKeyCombination(combination)}</kbd>
+              <button class="chrome-button chrome-shortcut-remove" onClick={onRemoveClick} aria-label="Remove">×</button>
+            </span>
+          );
+        })}
+        <button class="chrome-button chrome-overlay-button chrome-shortcut-add" onClick={onRecordClick}>
+          {recording ? "Press a key…" : "+"}
+        </button>
+      </div>
+    );
+  }
+
+  render(props: IShortcutsOverlayProps, { open = false, recording }: IShortcutsOverlayState): JSX.Element {
+    const style = open ? "" : "display: none;";
+
+    const onCloseClick = () => this.setOpen(false);
+    const onResetClick = () => props.shortcuts.resetBindings();
+
+    const attributes = {
+      'tabindex': '-1'
+    };
+
+    let list: JSX.Element|undefined = undefined;
+    if (open) {
+      list = (
+        <div class="chrome-shortcuts-list">
+          {props.shortcuts.getActions().map(action => (
+            <div class="chrome-shortcut">
+              <div class="chrome-shortcut-label">{action.label}</div>
+              {this._renderBindings(action, action.id === recording)}
+            </div>
+          ))}
+        </div>
+      );
+    }
+
+    return (
+      <div class="chrome-overlay chrome-shortcuts-overlay" style={style} role="dialog" aria-label="Keyboard shortcuts" {...attributes}>
+        <div class="chrome-overlay-panel">
+          <div class="chrome-overlay-header">
+            <div class="chrome-overlay-title">Keyboard shortcuts</div>
+            <button class="chrome-button chrome-overlay-close" onClick={onCloseClick} aria-label="Close">×</button>
+          </div>
+          {list}
+          <div class="chrome-overlay-footer">
+            <button class="chrome-button chrome-overlay-button" onClick={onResetClick}>Reset to defaults</button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+}
\ No newline at end of file
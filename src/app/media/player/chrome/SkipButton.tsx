@@ -0,0 +1,61 @@
+import { h, Component } from "preact";
+import { IPlayerApi, TimeUpdateEvent } from "../IPlayerApi";
+import { EventHandler } from "../../../libs/events/EventHandler";
+import { IChapter, getChapterAt, isSkippableChapter } from "../Chapters";
+
+export interface ISkipButtonProps {
+  api: IPlayerApi;
+  onSkip: (chapter: IChapter) => void;
+}
+
+export interface ISkipButtonState {
+  chapter?: IChapter;
+}
+
+/**
+ * A button that skips the opening or ending while it's playing.
+ */
+export class SkipButton extends Component<ISkipButtonProps, ISkipButtonState> {
+  private _handler = new EventHandler(this);
+
+  private _update(time: number) {
+    const chapter = getChapterAt(this.props.api.getChapters(), time);
+    const skippable = chapter && isSkippableChapter(chapter) ? chapter : undefined;
+    if (skippable === this.state.chapter) return;
+
+    this.setState({ chapter: skippable });
+  }
+
+  private _onTimeUpdate(e: TimeUpdateEvent) {
+    this._update(e.time);
+  }
+
+  private _onChaptersChange() {
+    this._update(this.props.api.getCurrentTime());
+  }
+
+  componentDidMount() {
+    this._handler
+      .listen(this.props.api, 'timeupdate', this._onTimeUpdate, false)
+      .listen(this.props.api, 'chapterschange', this._onChaptersChange, false);
+  }
+
+  componentWillUnmount() {
+    this._handler.removeAll();
+  }
+
+  render(props: ISkipButtonProps, { chapter }: ISkipButtonState): JSX.Element {
+    const style = chapter ? "" : "display: none;";
+    const onClick = () => {
+      if (chapter) {
+        props.onSkip(chapter);
+      }
+    };
+
+    return (
+      <button class="chrome-button chrome-skip-button" style={style} onClick={onClick}>
+        {chapter && chapter.type === 'ending' ? "Skip Credits" : "Skip Intro"}
+      </button>
+    );
+  }
+}
\ No newline at end of file
@@ -0,0 +1,202 @@
+import { h, Component } from "preact";
+import { IPlayerApi } from "../IPlayerApi";
+import { EventHandler } from "../../../libs/events/EventHandler";
+import { BrowserEvent } from "../../../libs/events/BrowserEvent";
+import { getKeyCombination } from "../KeyboardShortcuts";
+import { ISubtitleStyle } from "../../subtitles/SubtitleStyle";
+
+export interface ISubtitleStyleOverlayProps {
+  api: IPlayerApi;
+  onOpenChange?: (open: boolean) => void;
+}
+
+export interface ISubtitleStyleOverlayState {
+  open?: boolean;
+}
+
+interface IStyleOption {
+  label: string;
+
+  /**
+   * The value of the option or undefined to keep the original style.
+   */
+  value: string|number|undefined;
+}
+
+const ORIGINAL = "Original";
+
+const FONT_SCALES: IStyleOption[] = [0.5, 0.75, 1, 1.25, 1.5, 2, 3]
+  .map(scale => ({ label: scale*100 + "%", value: scale === 1 ? undefined : scale }));
+
+/**
+ * The fonts that are bundled with the subtitle engine.
+ */
+const FONTS: IStyleOption[] = [
+  { label: ORIGINAL, value: undefined },
+  { label: "Arial", value: "Arial" },
+  { label: "Arial Black", value: "Arial Black" },
+  { label: "Times New Roman", value: "Times New Roman" },
+  { label: "Trebuchet MS", value: "Trebuchet MS" }
+];
+
+const PRIMARY_COLORS: IStyleOption[] = [
+  { label: ORIGINAL, value: undefined },
+  { label: "White", value: "#ffffff" },
+  { label: "Yellow", value: "#ffff00" },
+  { label: "Cyan", value: "#00ffff" },
+  { label: "Green", value: "#00ff00" },
+  { label: "Magenta", value: "#ff00ff" }
+];
+
+const OUTLINE_COLORS: IStyleOption[] = [
+  { label: ORIGINAL, value: undefined },
+  { label: "Black", value: "#000000" },
+  { label: "Dark gray", value: "#404040" },
+  { label: "White", value: "#ffffff" }
+];
+
+const THICKNESSES: IStyleOption[] = [
+  { label: ORIGINAL, value: undefined },
+  { label: "None", value: 0 },
+  { label: "Thin", value: 1 },
+  { label: "Normal", value: 2 },
+  { label: "Thick", value: 3 },
+  { label: "Extra thick", value: 4 }
+];
+
+const MARGIN_SHIFTS: IStyleOption[] = [0, 5, 10, 15, 20]
+  .map(shift => ({ label: shift === 0 ? ORIGINAL : shift + "%", value: shift === 0 ? undefined : shift }));
+
+export class SubtitleStyleOverlay extends Component<ISubtitleStyleOverlayProps, ISubtitleStyleOverlayState> {
+  private _handler = new EventHandler(this);
+
+  isOpen(): boolean {
+    return !!this.state.open;
+  }
+
+  setOpen(open: boolean): void {
+    if (this.isOpen() === open) return;
+
+    this.setState({ open: open });
+
+    if (this.props.onOpenChange) {
+      this.props.onOpenChange(open);
+    }
+  }
+
+  /**
+   * Handles a keydown event while the overlay is open. Returns whether the
+   * event has been consumed by the overlay.
+   */
+  handleKeyDown(e: BrowserEvent): boolean {
+    if (!this.isOpen()) return false;
+
+    if (getKeyCombination(e) === 'Escape') {
+      this.setOpen(false);
+      return true;
+    }
+
+    return false;
+  }
+
+  private _onChange() {
+    if (!this.isOpen()) return;
+
+    this.forceUpdate();
+  }
+
+  private _setStyle<K extends keyof ISubtitleStyle>(key: K, value: ISubtitleStyle[K]) {
+    const api = this.props.api;
+    const style: ISubtitleStyle = {};
+    const current = api.getSubtitleStyle();
+    for (let name in current) {
+      if (current.hasOwnProperty(name)) {
+        style[name as keyof ISubtitleStyle] = current[name as keyof ISubtitleStyle];
+      }
+    }
+
+    if (value === undefined) {
+      delete style[key];
+    } else {
+      style[key] = value;
+    }
+
+    api.setSubtitleStyle(style);
+  }
+
+  componentDidMount() {
+    this._handler
+      .listen(this.props.api, 'subtitlestylechange', this._onChange, false);
+  }
+
+  componentWillUnmount() {
+    this._handler.removeAll();
+  }
+
+  private _renderSelect<K extends keyof ISubtitleStyle>(label: string, key: K, options: IStyleOption[]): JSX.Element {
+    const value = this.props.api.getSubtitleStyle()[key];
+    const onChange = (e: Event) => {
+      const option = options[(e.target as HTMLSelectElement).selectedIndex];
+      this._setStyle(key, option.value as ISubtitleStyle[K]);
+    };
+
+    return (
+      <label class="chrome-subtitle-style">
+        <span class="chrome-subtitle-style-label">{label}</span>
+        <select class="chrome-subtitle-style-select" onChange={onChange}>
+          {options.map(option => (
+            <option selected={option.value === value}>{option.label}</option>
+          ))}
+        </select>
+      </label>
+    );
+  }
+
+  render(props: ISubtitleStyleOverlayProps, { open = false }: ISubtitleStyleOverlayState): JSX.Element {
+    const style = open ? "" : "display: none;";
+
+    const onCloseClick = () => this.setOpen(false);
+    const onResetClick = () => props.api.setSubtitleStyle({});
+
+    const attributes = {
+      'tabindex': '-1'
+    };
+
+    let list: JSX.Element|undefined = undefined;
+    if (open) {
+      const dialogueOnly = !!props.api.getSubtitleStyle().dialogueOnly;
+      const onDialogueOnlyChange = (e: Event) => this._setStyle('dialogueOnly', (e.target as HTMLInputElement).checked || undefined);
+
+      list = (
+        <div class="chrome-subtitle-style-list">
+          {this._renderSelect("Font size", 'fontScale', FONT_SCALES)}
+          {this._renderSelect("Font", 'fontName', FONTS)}
+          {this._renderSelect("Text color", 'primaryColor', PRIMARY_COLORS)}
+          {this._renderSelect("Outline color", 'outlineColor', OUTLINE_COLORS)}
+          {this._renderSelect("Outline", 'outline', THICKNESSES)}
+          {this._renderSelect("Shadow", 'shadow', THICKNESSES)}
+          {this._renderSelect("Distance from edge", 'marginShift', MARGIN_SHIFTS)}
+          <label class="chrome-subtitle-style">
+            <span class="chrome-subtitle-style-label">Keep signs unchanged</span>
+            <input type="checkbox" checked={dialogueOnly} onChange={onDialogueOnlyChange}></input>
+          </label>
+        </div>
+      );
+    }
+
+    return (
+      <div class="chrome-overlay chrome-subtitle-style-overlay" style={style} role="dialog" aria-label="Subtitle style" {...attributes}>
+        <div class="chrome-overlay-panel">
+          <div class="chrome-overlay-header">
+            <div class="chrome-overlay-title">Subtitle style</div>
+            <button class="chrome-button chrome-overlay-close" onClick={onCloseClick} aria-label="Close">×</button>
+          </div>
+          {list}
+          <div class="chrome-overlay-footer">
+            <button class="chrome-button chrome-overlay-button" onClick={onResetClick}>Reset to defaults</button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+}
\ No newline at end of file
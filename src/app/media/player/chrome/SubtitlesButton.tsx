@@ -0,0 +1,66 @@
+import { h, Component } from "preact";
+import { IPlayerApi } from "../IPlayerApi";
+import { EventHandler } from "../../../libs/events/EventHandler";
+import { ICON_SUBTITLES } from "../assets";
+
+export interface ISubtitlesButtonProps {
+  api: IPlayerApi;
+  onClick?: () => void;
+  onHover?: () => void;
+  onEndHover?: () => void;
+}
+
+export class SubtitlesButton extends Component<ISubtitlesButtonProps, {}> {
+  private _handler = new EventHandler(this);
+
+  private _onClick() {
+    if (this.props.onClick) {
+      this.props.onClick();
+    }
+  }
+
+  private _onMouseOver() {
+    if (this.props.onHover) {
+      this.props.onHover();
+    }
+  }
+
+  private _onMouseOut() {
+    if (this.props.onEndHover) {
+      this.props.onEndHover();
+    }
+  }
+
+  private _update() {
+    const api = this.props.api;
+    const available = api.getSubtitlesTracks().length > 0;
+
+    this.base.style.display = available ? "" : "none";
+    this.base.setAttribute('aria-pressed', api.getSubtitleTrack() !== -1 ? 'true' : 'false');
+  }
+
+  componentDidMount() {
+    this._handler
+      .listen(this.base, 'mouseover', this._onMouseOver, { passive: true })
+      .listen(this.base, 'mouseout', this._onMouseOut, { passive: true })
+      .listen(this.props.api, 'subtitletrackschange', this._update, false)
+      .listen(this.props.api, 'subtitletrackchange', this._update, false);
+    this._update();
+  }
+
+  componentWillUnmount() {
+    this._handler.removeAll();
+  }
+
+  render(): JSX.Element {
+    const onClick = () => this._onClick();
+
+    return (
+      <button class="chrome-button chrome-subtitles-button" onClick={onClick} aria-haspopup="true" aria-pressed="false">
+        <svg width="100%" height="100%" version="1.1" viewBox="0 0 36 36">
+          <path d={ICON_SUBTITLES} fill="#ffffff"></path>
+        </svg>
+      </button>
+    );
+  }
+}
\ No newline at end of file
@@ -1,7 +1,7 @@
-import { IPlayerApi, DurationChangeEvent, TimeUpdateEvent } from "../IPlayerApi";
+import { IPlayerApi, DurationChangeEvent, TimeUpdateEvent, PlaybackStateChangeEvent, PlaybackState } from "../IPlayerApi";
 import { h, Component } from "preact";
 import { EventHandler } from "../../../libs/events/EventHandler";
-import { parseAndFormatTime } from "../../../utils/time";
+import { parseAndFormatTime, parseAndFormatPreciseTime } from "../../../utils/time";
 
 export interface ITimeDisplayProps {
   api: IPlayerApi
@@ -16,11 +16,29 @@ export class TimeDisplay extends Component<ITimeDisplayProps, {}> {
   private _currentTime: number = NaN;
   private _duration: number = NaN;
 
+  /**
+   * Whether the current time is displayed with millisecond precision. It's
+   * enabled while stepping frame by frame until the video plays again.
+   */
+  private _precise: boolean = false;
+
   private _onTimeUpdate(e: TimeUpdateEvent) {
     this._currentTime = e.time;
     this._updateState();
   }
   
+  private _onFrameStep() {
+    this._precise = true;
+    this._updateState();
+  }
+
+  private _onPlaybackStateChange(e: PlaybackStateChangeEvent) {
+    if (e.state !== PlaybackState.PLAYING || !this._precise) return;
+
+    this._precise = false;
+    this._updateState();
+  }
+  
   private _onDurationChange(e: DurationChangeEvent) {
     this._duration = e.duration;
     this._updateState();
@@ -33,7 +51,7 @@ export class TimeDisplay extends Component<ITimeDisplayProps, {}> {
     if (isNaN(currentTime)) {
       this._currentTimeElement.textContent = '--:--';
     } else {
-      this._currentTimeElement.textContent = parseAndFormatTime(currentTime);
+      this._currentTimeElement.textContent = this._precise ? parseAndFormatPreciseTime(currentTime) : parseAndFormatTime(currentTime);
     }
     if (isNaN(duration)) {
       this._durationTimeElement.textContent = '--:--';
@@ -45,7 +63,9 @@ export class TimeDisplay extends Component<ITimeDisplayProps, {}> {
   componentDidMount() {
     this._handler
       .listen(this.props.api, 'timeupdate', this._onTimeUpdate, false)
-      .listen(this.props.api, 'durationchange', this._onDurationChange, false);
+      .listen(this.props.api, 'durationchange', this._onDurationChange, false)
+      .listen(this.props.api, 'framestep', this._onFrameStep, false)
+      .listen(this.props.api, 'playbackstatechange', this._onPlaybackStateChange, false);
   }
 
   componentWillUnmount() {
@@ -0,0 +1,278 @@
+import { h, Component } from "preact";
+import { IPlayerApi, TimeUpdateEvent } from "../IPlayerApi";
+import { EventHandler } from "../../../libs/events/EventHandler";
+import { BrowserEvent } from "../../../libs/events/BrowserEvent";
+import { getKeyCombination } from "../KeyboardShortcuts";
+import { parseAssEvents, getAssPlainText, isSignStyleName } from "../../../converter/ass";
+import { parseAndFormatTime } from "../../../utils/time";
+
+export interface ITranscriptLine {
+  start: number;
+  end: number;
+  name?: string;
+  text: string;
+}
+
+export interface ITranscriptPanelProps {
+  api: IPlayerApi;
+  onOpenChange?: (open: boolean) => void;
+}
+
+export interface ITranscriptPanelState {
+  open?: boolean;
+  loading?: boolean;
+  lines?: ITranscriptLine[];
+  query?: string;
+
+  /**
+   * The index of the line at the current time or -1 if there's none.
+   */
+  current?: number;
+}
+
+/**
+ * Returns the dialogue lines of an ASS script without the signs and the
+ * typesetting.
+ */
+export function getTranscriptLines(content: string): ITranscriptLine[] {
+  const lines: ITranscriptLine[] = [];
+  const events = parseAssEvents(content);
+  for (let i = 0; i < events.length; i++) {
+    const event = events[i];
+    if (isSignStyleName(event.style || "") || /\\(pos|move)\(/.test(event.text)) continue;
+
+    const text = getAssPlainText(event.text).replace(/\s*\n\s*/g, ' ');
+    if (!text) continue;
+
+    // Some subtitles contain the same line multiple times for the styling.
+    const previous = lines[lines.length - 1];
+    if (previous && previous.start === event.start && previous.text === text) continue;
+
+    lines.push({
+      start: event.start,
+      end: event.end,
+      name: event.name || undefined,
+      text: text
+    });
+  }
+  return lines;
+}
+
+export class TranscriptPanel extends Component<ITranscriptPanelProps, ITranscriptPanelState> {
+  private _handler = new EventHandler(this);
+  private _listElement: HTMLElement;
+  private _searchElement: HTMLInputElement;
+
+  /**
+   * The subtitle track of the loaded lines.
+   */
+  private _track: number = -1;
+
+  isOpen(): boolean {
+    return !!this.state.open;
+  }
+
+  setOpen(open: boolean): void {
+    if (this.isOpen() === open) return;
+
+    this.setState({ open: open });
+    if (open) {
+      this._load();
+    }
+
+    if (this.props.onOpenChange) {
+      this.props.onOpenChange(open);
+    }
+  }
+
+  toggle(): void {
+    this.setOpen(!this.isOpen());
+  }
+
+  /**
+   * Handles a keydown event while the panel is open. Returns whether the event
+   * has been consumed by the panel.
+   */
+  handleKeyDown(e: BrowserEvent): boolean {
+    if (!this.isOpen() || getKeyCombination(e) !== 'Escape') return false;
+
+    if (this.state.query) {
+      this.setState({ query: "" });
+    } else {
+      this.setOpen(false);
+    }
+    return true;
+  }
+
+  private async _load(): Promise<void> {
+    const api = this.props.api;
+    const index = api.getSubtitleTrack();
+    if (index === this._track && this.state.lines) return;
+
+    this._track = index;
+    const track = api.getSubtitlesTracks()[index];
+    if (!track) {
+      this.setState({ lines: [], loading: false, current: -1 });
+      return;
+    }
+
+    this.setState({ loading: true });
+    try {
+      const lines = getTranscriptLines(await track.getContent());
+      if (this._track !== index) return;
+
+      this.setState({ lines: lines, loading: false, current: -1 });
+      this._updateCurrent(api.getCurrentTime());
+    } catch (e) {
+      console.error(e);
+      this.setState({ lines: [], loading: false });
+    }
+  }
+
+  private _onSubtitleTrackChange() {
+    this._track = -1;
+    this.setState({ lines: undefined });
+    if (this.isOpen()) {
+      this._load();
+    }
+  }
+
+  private _onTimeUpdate(e: TimeUpdateEvent) {
+    if (!this.isOpen()) return;
+
+    this._updateCurrent(e.time);
+  }
+
+  private _updateCurrent(time: number) {
+    const lines = this.state.lines || [];
+    time -= this.props.api.getSubtitleDelay();
+
+    // The last line that has started is the current line.
+    let current = -1;
+    for (let i = 0; i < lines.length && lines[i].start <= time; i++) {
+      current = i;
+    }
+    if (current === this.state.current) return;
+
+    this.setState({ current: current });
+  }
+
+  private _scrollToCurrent() {
+    // Don't scroll away from the search results.
+    if (!this._listElement || this.state.query) return;
+
+    const el = this._listElement.querySelector(".chrome-transcript-line--current") as HTMLElement|null;
+    if (!el) return;
+
+    const list = this._listElement;
+    if (el.offsetTop < list.scrollTop || el.offsetTop + el.offsetHeight > list.scrollTop + list.clientHeight) {
+      list.scrollTop = el.offsetTop - list.clientHeight/3;
+    }
+  }
+
+  private _onLineClick(line: ITranscriptLine) {
+    const api = this.props.api;
+    api.seekTo(line.start + api.getSubtitleDelay());
+  }
+
+  private _onSearchInput() {
+    this.setState({ query: this._searchElement.value });
+  }
+
+  componentDidMount() {
+    this._handler
+      .listen(this.props.api, 'subtitletrackchange', this._onSubtitleTrackChange, false)
+      .listen(this.props.api, 'subtitletrackschange', this._onSubtitleTrackChange, false)
+      .listen(this.props.api, 'timeupdate', this._onTimeUpdate, false);
+  }
+
+  componentDidUpdate() {
+    this._scrollToCurrent();
+  }
+
+  componentWillUnmount() {
+    this._handler.removeAll();
+  }
+
+  private _renderText(text: string, query: string): JSX.Element[]|string {
+    if (!query) return text;
+
+    // Highlight the matches of the query.
+    const parts: JSX.Element[] = [];
+    const lowerText = text.toLowerCase();
+    let index = 0;
+    let match: number;
+    while ((match = lowerText.indexOf(query, index)) !== -1) {
+      parts.push(<span>{text.substring(index, match)}</span>);
+      parts.push(<mark class="chrome-transcript-match">{text.substring(match, match + query.length)}</mark>);
+      index = match + query.length;
+    }
+    parts.push(<span>{text.substring(index)}</span>);
+    return parts;
+  }
+
+  private _renderLines(lines: ITranscriptLine[], current: number, query: string): JSX.Element {
+    const items: JSX.Element[] = [];
+    for (let i = 0; i < lines.length; i++) {
+      const line = lines[i];
+      if (query && line.text.toLowerCase().indexOf(query) === -1) continue;
+
+      const onClick = () => this._onLineClick(line);
+      const className = "chrome-transcript-line" + (i === current ? " chrome-transcript-line--current" : "");
+      items.push(
+        <div class={className} role="button" onClick={onClick}>
+          <span class="chrome-transcript-time">{parseAndFormatTime(line.start)}</span>
+          <span class="chrome-transcript-text">
+            {line.name ? <span class="chrome-transcript-name">{line.name + ": "}</span> : null}
+            {this._renderText(line.text, query)}
+          </span>
+        </div>
+      );
+    }
+
+    if (items.length === 0) {
+      return <div class="chrome-transcript-empty">{query ? "No matches" : "No dialogue"}</div>;
+    }
+    return <div>{items}</div>;
+  }
+
+  render(props: ITranscriptPanelProps, { open = false, loading = false, lines, query = "", current = -1 }: ITranscriptPanelState): JSX.Element {
+    const style = open ? "" : "display: none;";
+
+    const listRef = (el: HTMLElement) => this._listElement = el;
+    const searchRef = (el: HTMLInputElement) => this._searchElement = el;
+    const onCloseClick = () => this.setOpen(false);
+    const onSearchInput = () => this._onSearchInput();
+
+    let content: JSX.Element|undefined = undefined;
+    if (open) {
+      if (loading) {
+        content = <div class="chrome-transcript-empty">Loading…</div>;
+      } else if (props.api.getSubtitleTrack() === -1) {
+        content = <div class="chrome-transcript-empty">Select subtitles to show the transcript</div>;
+      } else {
+        content = this._renderLines(lines || [], current, query.trim().toLowerCase());
+      }
+    }
+
+    return (
+      <div class="chrome-transcript-panel" style={style} role="complementary" aria-label="Transcript">
+        <div class="chrome-overlay-header">
+          <div class="chrome-overlay-title">Transcript</div>
+          <button class="chrome-button chrome-overlay-close" onClick={onCloseClick} aria-label="Close">×</button>
+        </div>
+        <div class="chrome-transcript-search">
+          <input
+            ref={searchRef}
+            type="search"
+            placeholder="Search dialogue"
+            value={query}
+            onInput={onSearchInput}></input>
+        </div>
+        <div class="chrome-transcript-list" ref={listRef}>
+          {content}
+        </div>
+      </div>
+    );
+  }
+}
\ No newline at end of file
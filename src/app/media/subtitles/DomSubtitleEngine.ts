@@ -0,0 +1,431 @@
+import { ISubtitleEngine, ISubtitleRect } from './ISubtitleEngine';
+import { EventHandler } from '../../libs/events/EventHandler';
+import { EventTarget } from '../../libs/events/EventTarget';
+import { parseAssEvents, convertAssText, getAssAlignment } from '../../converter/ass';
+
+interface IDomStyle {
+  fontName: string;
+  fontSize: number;
+  primaryColor: string;
+  outlineColor: string;
+  backColor: string;
+  bold: boolean;
+  italic: boolean;
+  underline: boolean;
+  outline: number;
+  shadow: number;
+  alignment: number;
+  marginL: number;
+  marginR: number;
+  marginV: number;
+}
+
+interface IDomCue {
+  start: number;
+  end: number;
+  style: IDomStyle;
+  alignment: number;
+
+  /**
+   * The position of the cue in the script resolution if it's positioned
+   * explicitly.
+   */
+  position?: { x: number, y: number };
+  html: string;
+}
+
+const DEFAULT_STYLE: IDomStyle = {
+  fontName: "Arial",
+  fontSize: 20,
+  primaryColor: "#ffffff",
+  outlineColor: "#000000",
+  backColor: "rgba(0,0,0,0.5)",
+  bold: false,
+  italic: false,
+  underline: false,
+  outline: 2,
+  shadow: 0,
+  alignment: 2,
+  marginL: 10,
+  marginR: 10,
+  marginV: 10
+};
+
+/**
+ * Converts an ASS color like `&H80FFFFFF` to a CSS color.
+ */
+function convertAssColor(color: string|undefined, defaultColor: string): string {
+  const m = /&H([0-9a-f]{1,8})/i.exec(color || "");
+  if (!m) return defaultColor;
+
+  let hex = m[1];
+  while (hex.length < 8) {
+    hex = "0" + hex;
+  }
+
+  // The alpha of ASS colors is inverted.
+  const alpha = 1 - parseInt(hex.substring(0, 2), 16)/255;
+  const blue = parseInt(hex.substring(2, 4), 16);
+  const green = parseInt(hex.substring(4, 6), 16);
+  const red = parseInt(hex.substring(6, 8), 16);
+
+  return "rgba(" + red + "," + green + "," + blue + "," + Math.round(alpha*100)/100 + ")";
+}
+
+function parseNumber(value: string|undefined, defaultValue: number): number {
+  const number = parseFloat(value || "");
+  return isNaN(number) ? defaultValue : number;
+}
+
+/**
+ * Parses the script resolution and the styles of an ASS script.
+ */
+function parseScript(content: string): { playResX: number, playResY: number, styles: {[name: string]: IDomStyle} } {
+  const lines = content.split(/\r?\n/);
+  const styles: {[name: string]: IDomStyle} = {};
+  let playResX = NaN;
+  let playResY = NaN;
+
+  let section = "";
+  let format: string[] = [];
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].trim();
+    if (/^\[.*\]$/.test(line)) {
+      section = line.toLowerCase();
+      format = [];
+      continue;
+    }
+
+    const index = line.indexOf(':');
+    if (index === -1) continue;
+    const type = line.substring(0, index);
+    const value = line.substring(index + 1).trim();
+
+    if (section === "[script info]") {
+      if (type === "PlayResX") {
+        playResX = parseInt(value, 10);
+      } else if (type === "PlayResY") {
+        playResY = parseInt(value, 10);
+      }
+    } else if (section === "[v4+ styles]" || section === "[v4 styles]") {
+      const values = value.split(',').map(v => v.trim());
+      if (type === "Format") {
+        format = values;
+      } else if (type === "Style") {
+        const get = (field: string) => values[format.indexOf(field)];
+
+        let alignment = parseNumber(get("Alignment"), DEFAULT_STYLE.alignment);
+        if (section === "[v4 styles]") {
+          // The legacy alignment adds 4 for the top and 8 for the middle.
+          alignment = ((alignment - 1) & 3) + 1 + (alignment > 8 ? 3 : alignment > 4 ? 6 : 0);
+        }
+
+        styles[get("Name") || "Default"] = {
+          fontName: get("Fontname") || DEFAULT_STYLE.fontName,
+          fontSize: parseNumber(get("Fontsize"), DEFAULT_STYLE.fontSize),
+          primaryColor: convertAssColor(get("PrimaryColour"), DEFAULT_STYLE.primaryColor),
+          outlineColor: convertAssColor(get("OutlineColour"), DEFAULT_STYLE.outlineColor),
+          backColor: convertAssColor(get("BackColour"), DEFAULT_STYLE.backColor),
+          bold: get("Bold") === "-1" || get("Bold") === "1",
+          italic: get("Italic") === "-1" || get("Italic") === "1",
+          underline: get("Underline") === "-1" || get("Underline") === "1",
+          outline: parseNumber(get("Outline"), DEFAULT_STYLE.outline),
+          shadow: parseNumber(get("Shadow"), DEFAULT_STYLE.shadow),
+          alignment: alignment,
+          marginL: parseNumber(get("MarginL"), DEFAULT_STYLE.marginL),
+          marginR: parseNumber(get("MarginR"), DEFAULT_STYLE.marginR),
+          marginV: parseNumber(get("MarginV"), DEFAULT_STYLE.marginV)
+        };
+      }
+    }
+  }
+
+  // The defaults of the ASS specification.
+  return {
+    playResX: playResX || (playResY ? Math.round(playResY*4/3) : 384),
+    playResY: playResY || (playResX ? Math.round(playResX*3/4) : 288),
+    styles: styles
+  };
+}
+
+/**
+ * A lightweight subtitle engine that renders the dialogue of ASS scripts as
+ * HTML elements on top of the video. It only supports the basic styling and
+ * positioning, but it doesn't need a worker or any fonts.
+ */
+export class DomSubtitleEngine extends EventTarget implements ISubtitleEngine {
+  private element: HTMLElement = document.createElement("div");
+  private video: HTMLVideoElement|undefined;
+  private videoHandler: EventHandler = new EventHandler(this);
+
+  private cues: IDomCue[] = [];
+  private activeCues: IDomCue[] = [];
+  private playResX: number = 384;
+  private playResY: number = 288;
+
+  private delay: number = 0;
+  private rect: ISubtitleRect = { width: 0, height: 0, x: 0, y: 0 };
+  private frameId: number|undefined;
+
+  constructor() {
+    super();
+
+    this.element.className = "html5-subtitle-dom";
+  }
+
+  protected disposeInternal() {
+    super.disposeInternal();
+
+    this.detach();
+  }
+
+  attach(video: HTMLVideoElement) {
+    this.videoHandler.removeAll();
+    this.video = video;
+
+    this.videoHandler
+      .listen(video, 'playing', this.startRendering, false)
+      .listen(video, 'pause', this.stopRendering, false)
+      .listen(video, 'waiting', this.stopRendering, false)
+      .listen(video, 'seeked', () => this.render(false), false)
+      .listen(video, 'timeupdate', () => this.render(false), false)
+      .listen(video, 'loadedmetadata', this.resize, false)
+      .listen(window, 'resize', this.resize, { 'passive': true });
+
+    this.resize();
+    this.render(true);
+    if (!video.paused) {
+      this.startRendering();
+    }
+  }
+
+  detach() {
+    this.stopRendering();
+    this.videoHandler.removeAll();
+    this.video = undefined;
+
+    this.activeCues = [];
+    this.element.innerHTML = "";
+  }
+
+  getElement(): Element {
+    return this.element;
+  }
+
+  setTrack(content: string) {
+    const script = parseScript(content);
+    this.playResX = script.playResX;
+    this.playResY = script.playResY;
+
+    this.cues = parseAssEvents(content)
+      .map(event => {
+        const style = script.styles[event.style || ""] || script.styles["Default"] || DEFAULT_STYLE;
+        const position = /\\(?:pos|move)\(\s*(-?[\d.]+)\s*,\s*(-?[\d.]+)/.exec(event.text);
+
+        return {
+          start: event.start,
+          end: event.end,
+          style: style,
+          alignment: getAssAlignment(event.text) || style.alignment,
+          position: position ? { x: parseFloat(position[1]), y: parseFloat(position[2]) } : undefined,
+          html: convertAssText(event.text, true).replace(/\n/g, "<br>")
+        } as IDomCue;
+      })
+      .filter(cue => !!cue.html);
+
+    this.render(true);
+  }
+
+  getRect(): ISubtitleRect {
+    return this.rect;
+  }
+
+  resize() {
+    const video = this.video;
+    if (!video || !video.videoWidth || !video.videoHeight) return;
+
+    // The element covers the visible part of the letterboxed video.
+    const videoRatio = video.videoWidth/video.videoHeight;
+    let width = video.offsetWidth;
+    let height = video.offsetHeight;
+    if (width/height > videoRatio) {
+      width = Math.ceil(height*videoRatio);
+    } else {
+      height = Math.ceil(width/videoRatio);
+    }
+    const x = (video.offsetWidth - width)/2;
+    const y = (video.offsetHeight - height)/2;
+
+    if (this.rect.width === width && this.rect.height === height) return;
+
+    this.rect = { width: width, height: height, x: x, y: y };
+    this.dispatchEvent('resize');
+    this.render(true);
+  }
+
+  redraw() {
+    this.render(true);
+  }
+
+  setDelay(delay: number) {
+    this.delay = delay;
+    this.render(false);
+  }
+
+  getDelay(): number {
+    return this.delay;
+  }
+
+  /**
+   * Draws the text of the rendered cues at their position. The outline is
+   * approximated with a stroke.
+   */
+  draw(context: CanvasRenderingContext2D, width: number, height: number) {
+    if (this.rect.width === 0 || this.activeCues.length === 0) return;
+
+    const bounds = this.element.getBoundingClientRect();
+    const scale = width/this.rect.width;
+    const cues = this.element.querySelectorAll(".html5-subtitle-dom-cue");
+    for (let i = 0; i < cues.length; i++) {
+      const el = cues[i] as HTMLElement;
+      const rect = el.getBoundingClientRect();
+      const lines = (el.innerText || el.textContent || "").split("\n");
+      const lineHeight = rect.height/lines.length*scale;
+      const fontSize = parseFloat(el.style.fontSize || "")*scale;
+      if (!lineHeight || !fontSize) continue;
+
+      context.font = el.style.fontStyle + " " + el.style.fontWeight + " " + fontSize + "px " + el.style.fontFamily;
+      context.textAlign = "center";
+      context.textBaseline = "middle";
+      context.lineJoin = "round";
+      context.lineWidth = Math.max(fontSize/8, 1);
+      context.strokeStyle = "#000";
+      context.fillStyle = el.style.color || "#fff";
+
+      const x = (rect.left - bounds.left + rect.width/2)*scale;
+      for (let j = 0; j < lines.length; j++) {
+        const y = (rect.top - bounds.top)*scale + lineHeight*(j + 0.5);
+        context.strokeText(lines[j], x, y);
+        context.fillText(lines[j], x, y);
+      }
+    }
+  }
+
+  private startRendering() {
+    if (this.frameId !== undefined) return;
+
+    const frame = () => {
+      this.frameId = window.requestAnimationFrame(frame);
+      this.render(false);
+    };
+    this.frameId = window.requestAnimationFrame(frame);
+  }
+
+  private stopRendering() {
+    if (this.frameId !== undefined) {
+      window.cancelAnimationFrame(this.frameId);
+      this.frameId = undefined;
+    }
+    this.render(false);
+  }
+
+  /**
+   * Renders the cues at the current time of the video.
+   * @param force whether to render the cues even if they haven't changed.
+   */
+  private render(force: boolean) {
+    if (!this.video) return;
+
+    const time = this.video.currentTime - this.delay;
+    const cues = this.cues.filter(cue => cue.start <= time && time < cue.end);
+
+    const changed = cues.length !== this.activeCues.length
+      || cues.some((cue, i) => cue !== this.activeCues[i]);
+    if (!changed && !force) return;
+    this.activeCues = cues;
+
+    this.element.innerHTML = "";
+    if (this.rect.height === 0) return;
+
+    const scale = this.rect.height/this.playResY;
+    const scaleX = this.rect.width/this.playResX;
+
+    // The cues that aren't positioned explicitly are stacked by alignment.
+    const groups: {[alignment: number]: HTMLElement} = {};
+
+    for (let i = 0; i < cues.length; i++) {
+      const cue = cues[i];
+      const el = this.createCueElement(cue, scale);
+      const horizontal = (cue.alignment - 1)%3;
+      const vertical = Math.floor((cue.alignment - 1)/3);
+
+      if (cue.position) {
+        el.style.position = "absolute";
+        el.style.left = cue.position.x*scaleX + "px";
+        el.style.top = cue.position.y*scale + "px";
+        el.style.transform = "translate(" + (-50*horizontal) + "%, " + (vertical === 0 ? -100 : vertical === 1 ? -50 : 0) + "%)";
+        this.element.appendChild(el);
+        continue;
+      }
+
+      let group = groups[cue.alignment];
+      if (!group) {
+        group = document.createElement("div");
+        group.className = "html5-subtitle-dom-group";
+        group.style.textAlign = ["left", "center", "right"][horizontal];
+        group.style.left = cue.style.marginL*scaleX + "px";
+        group.style.right = cue.style.marginR*scaleX + "px";
+        if (vertical === 0) {
+          group.style.bottom = cue.style.marginV*scale + "px";
+        } else if (vertical === 2) {
+          group.style.top = cue.style.marginV*scale + "px";
+        } else {
+          group.style.top = "50%";
+          group.style.transform = "translateY(-50%)";
+        }
+
+        groups[cue.alignment] = group;
+        this.element.appendChild(group);
+      }
+
+      // Later cues at the bottom are stacked above the earlier ones.
+      if (vertical === 0 && group.firstChild) {
+        group.insertBefore(el, group.firstChild);
+      } else {
+        group.appendChild(el);
+      }
+    }
+  }
+
+  private createCueElement(cue: IDomCue, scale: number): HTMLElement {
+    const style = cue.style;
+    const el = document.createElement("div");
+    el.className = "html5-subtitle-dom-cue";
+    el.innerHTML = cue.html;
+
+    el.style.fontFamily = "\"" + style.fontName + "\", Arial, sans-serif";
+    el.style.fontSize = style.fontSize*scale + "px";
+    el.style.color = style.primaryColor;
+    el.style.fontWeight = style.bold ? "bold" : "normal";
+    el.style.fontStyle = style.italic ? "italic" : "normal";
+    el.style.textDecoration = style.underline ? "underline" : "none";
+
+    // Approximate the outline and shadow with text shadows.
+    const shadows: string[] = [];
+    const outline = style.outline*scale;
+    if (outline > 0) {
+      for (let angle = 0; angle < 360; angle += 45) {
+        const x = Math.round(Math.cos(angle*Math.PI/180)*outline*100)/100;
+        const y = Math.round(Math.sin(angle*Math.PI/180)*outline*100)/100;
+        shadows.push(x + "px " + y + "px 0 " + style.outlineColor);
+      }
+    }
+    const shadow = style.shadow*scale;
+    if (shadow > 0) {
+      shadows.push(shadow + "px " + shadow + "px 0 " + style.backColor);
+    }
+    el.style.textShadow = shadows.join(", ");
+
+    return el;
+  }
+}
\ No newline at end of file
@@ -15,4 +15,25 @@ export interface ISubtitleEngine extends EventTarget {
   setTrack(content: string): void;
   getRect(): ISubtitleRect;
   resize(): void;
+
+  /**
+   * Renders the subtitles again at the current time of the video.
+   */
+  redraw(): void;
+
+  /**
+   * Delays the subtitles by a number of seconds. Negative values show the
+   * subtitles earlier.
+   * @param delay the delay in seconds.
+   */
+  setDelay(delay: number): void;
+  getDelay(): number;
+
+  /**
+   * Draws the current subtitles onto a canvas that covers the video.
+   * @param context the context of the canvas.
+   * @param width the width of the video on the canvas.
+   * @param height the height of the video on the canvas.
+   */
+  draw(context: CanvasRenderingContext2D, width: number, height: number): void;
 }
\ No newline at end of file
@@ -1,4 +1,5 @@
 export interface ISubtitleTrack {
   label: string;
+  language?: string;
   getContent(): Promise<string>;
 }
\ No newline at end of file
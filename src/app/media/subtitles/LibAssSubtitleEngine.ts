@@ -17,7 +17,8 @@ export class LibAssSubtitleEngine extends EventTarget implements ISubtitleEngine
 
     this.handler
       .listen(this.libass, 'ready', this.onReady)
-      .listen(this.libass, 'resize', this.onResize);
+      .listen(this.libass, 'resize', this.onResize)
+      .listen(this.libass, 'error', this.onError);
   }
 
   private onReady() {
@@ -28,10 +29,15 @@ export class LibAssSubtitleEngine extends EventTarget implements ISubtitleEngine
     this.dispatchEvent('resize');
   }
 
+  private onError() {
+    this.dispatchEvent('error');
+  }
+
   protected disposeInternal() {
     super.disposeInternal();
 
     this.handler.dispose();
+    this.libass.dispose();
   }
 
   attach(element: HTMLVideoElement) {
@@ -51,7 +57,13 @@ export class LibAssSubtitleEngine extends EventTarget implements ISubtitleEngine
       this.libass.setTrack(content);
     } else {
       this.initialized = true;
-      this.libass.init(content);
+      try {
+        this.libass.init(content);
+      } catch (e) {
+        // Creating the worker fails if workers are blocked.
+        console.error(e);
+        this.onError();
+      }
     }
   }
 
@@ -69,4 +81,25 @@ export class LibAssSubtitleEngine extends EventTarget implements ISubtitleEngine
   resize() {
     this.libass.resize();
   }
+
+  redraw() {
+    this.libass.redraw();
+  }
+
+  setDelay(delay: number) {
+    // The offset is added to the time of the video.
+    this.libass.setOffsetTime(-delay);
+  }
+
+  getDelay(): number {
+    return -this.libass.getOffsetTime();
+  }
+
+  draw(context: CanvasRenderingContext2D, width: number, height: number) {
+    // The canvas covers the video in the device resolution.
+    const canvas = this.libass.getCanvas() as HTMLCanvasElement;
+    if (canvas.width === 0 || canvas.height === 0) return;
+
+    context.drawImage(canvas, 0, 0, width, height);
+  }
 }
\ No newline at end of file
@@ -0,0 +1,41 @@
+import { ISubtitleTrack } from './ISubtitleTrack';
+import { SrtToAss } from '../../converter/SrtToAss';
+import { VttToAss } from '../../converter/VttToAss';
+import { readFileAsText } from '../../utils/file';
+
+export const SUBTITLE_FILE_EXTENSIONS = ['.ass', '.ssa', '.srt', '.vtt'];
+
+function getExtension(name: string): string {
+  const index = name.lastIndexOf('.');
+  return index === -1 ? '' : name.substring(index).toLowerCase();
+}
+
+export function isSubtitleFile(file: File): boolean {
+  return SUBTITLE_FILE_EXTENSIONS.indexOf(getExtension(file.name)) !== -1;
+}
+
+/**
+ * Creates a subtitle track from a local subtitle file. SRT and WebVTT files
+ * are converted to ASS.
+ * @param file the subtitle file.
+ */
+export async function createSubtitleTrackFromFile(file: File): Promise<ISubtitleTrack> {
+  if (!isSubtitleFile(file)) throw new Error("Unsupported subtitle file " + file.name + ".");
+
+  const title = file.name.substring(0, file.name.lastIndexOf('.'));
+
+  let content = await readFileAsText(file);
+  switch (getExtension(file.name)) {
+    case '.srt':
+      content = new SrtToAss(content, title).getContentAsAss();
+      break;
+    case '.vtt':
+      content = new VttToAss(content, title).getContentAsAss();
+      break;
+  }
+
+  return {
+    label: title,
+    getContent: async (): Promise<string> => content
+  };
+}
\ No newline at end of file
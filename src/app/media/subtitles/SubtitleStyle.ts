@@ -0,0 +1,210 @@
+import { convertColor, isSignStyleName } from '../../converter/ass';
+
+export interface ISubtitleStyle {
+  /**
+   * The scale of the font size where 1 is the original size.
+   */
+  fontScale?: number;
+
+  /**
+   * The font that replaces the font of the styles.
+   */
+  fontName?: string;
+
+  /**
+   * The CSS color of the text, e.g. `#ffff00`.
+   */
+  primaryColor?: string;
+
+  /**
+   * The CSS color of the outline.
+   */
+  outlineColor?: string;
+
+  /**
+   * The thickness of the outline in pixels at a video height of 360 pixels.
+   */
+  outline?: number;
+
+  /**
+   * The distance of the shadow in pixels at a video height of 360 pixels.
+   */
+  shadow?: number;
+
+  /**
+   * Moves the subtitles away from the top and bottom edge of the video by a
+   * percentage of the video height.
+   */
+  marginShift?: number;
+
+  /**
+   * Whether only the dialogue styles are changed and the signs are kept as
+   * they are.
+   */
+  dialogueOnly?: boolean;
+}
+
+/**
+ * The reference height of the outline and shadow thickness.
+ */
+const REFERENCE_HEIGHT = 360;
+
+/**
+ * Returns whether the style changes anything.
+ */
+export function isSubtitleStyleEmpty(style: ISubtitleStyle): boolean {
+  return (style.fontScale === undefined || style.fontScale === 1)
+    && !style.fontName
+    && !style.primaryColor
+    && !style.outlineColor
+    && style.outline === undefined
+    && style.shadow === undefined
+    && !style.marginShift;
+}
+
+/**
+ * Replaces the color of an ASS color while keeping its alpha.
+ * @param assColor the ASS color, e.g. `&H00FFFFFF`.
+ * @param cssColor the CSS color.
+ */
+function replaceColor(assColor: string, cssColor: string): string {
+  const color = convertColor(cssColor);
+  if (!color) return assColor;
+
+  const m = /&H([0-9a-f]{1,8})/i.exec(assColor);
+  const alpha = m && m[1].length > 6 ? m[1].substring(0, m[1].length - 6) : "00";
+
+  return "&H" + (alpha.length === 1 ? "0" + alpha : alpha) + color.substring(2, 8);
+}
+
+function formatNumber(value: number): string {
+  return (Math.round(value*100)/100).toString();
+}
+
+/**
+ * Returns whether a style is used for signs, songs or other typesetting by
+ * its name or by positioning most of its events explicitly.
+ */
+function isSignStyle(name: string, events: number, positioned: number): boolean {
+  if (isSignStyleName(name)) return true;
+
+  return events > 0 && positioned/events > 0.5;
+}
+
+/**
+ * Applies the style to the styles of an ASS script.
+ * @param content the ASS script.
+ * @param style the style to apply.
+ */
+export function applySubtitleStyle(content: string, style: ISubtitleStyle): string {
+  if (isSubtitleStyleEmpty(style)) return content;
+
+  const lines = content.split(/\r?\n/);
+
+  // Collect the script resolution and the usage of the styles first.
+  let playResY = 288;
+  const events: {[name: string]: number} = {};
+  const positioned: {[name: string]: number} = {};
+  let section = "";
+  let format: string[] = [];
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].trim();
+    if (/^\[.*\]$/.test(line)) {
+      section = line.toLowerCase();
+      format = [];
+      continue;
+    }
+
+    const index = line.indexOf(':');
+    if (index === -1) continue;
+    const type = line.substring(0, index);
+    const value = line.substring(index + 1);
+
+    if (section === "[script info]" && type === "PlayResY") {
+      playResY = parseInt(value, 10) || playResY;
+    } else if (section === "[events]" && type === "Format") {
+      format = value.split(',').map(name => name.trim());
+    } else if (section === "[events]" && type === "Dialogue") {
+      const values = value.split(',');
+      const name = (values[format.indexOf("Style")] || "").trim();
+      events[name] = (events[name] || 0) + 1;
+      if (/\\(pos|move)\(/.test(values.slice(format.length - 1).join(','))) {
+        positioned[name] = (positioned[name] || 0) + 1;
+      }
+    }
+  }
+
+  const scale = playResY/REFERENCE_HEIGHT;
+
+  section = "";
+  format = [];
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].trim();
+    if (/^\[.*\]$/.test(line)) {
+      section = line.toLowerCase();
+      format = [];
+      continue;
+    }
+    if (section !== "[v4+ styles]" && section !== "[v4 styles]") continue;
+
+    const index = line.indexOf(':');
+    if (index === -1) continue;
+    const type = line.substring(0, index);
+    const values = line.substring(index + 1).split(',').map(value => value.trim());
+
+    if (type === "Format") {
+      format = values;
+      continue;
+    }
+    if (type !== "Style" || format.length === 0) continue;
+
+    const get = (field: string): string|undefined => {
+      const index = format.indexOf(field);
+      return index === -1 ? undefined : values[index];
+    };
+    const set = (field: string, value: string) => {
+      const index = format.indexOf(field);
+      if (index !== -1) {
+        values[index] = value;
+      }
+    };
+
+    const name = get("Name") || "";
+    if (style.dialogueOnly && isSignStyle(name, events[name] || 0, positioned[name] || 0)) continue;
+
+    const fontSize = parseFloat(get("Fontsize") || "");
+    if (style.fontScale !== undefined && !isNaN(fontSize)) {
+      set("Fontsize", formatNumber(fontSize*style.fontScale));
+    }
+    if (style.fontName) {
+      set("Fontname", style.fontName.replace(/,/g, ''));
+    }
+    if (style.primaryColor) {
+      set("PrimaryColour", replaceColor(get("PrimaryColour") || "", style.primaryColor));
+    }
+    if (style.outlineColor) {
+      set("OutlineColour", replaceColor(get("OutlineColour") || "", style.outlineColor));
+    }
+    if (style.outline !== undefined) {
+      set("Outline", formatNumber(style.outline*scale));
+    }
+    if (style.shadow !== undefined) {
+      set("Shadow", formatNumber(style.shadow*scale));
+    }
+
+    // Only move the subtitles that are aligned to the top or bottom edge.
+    const marginV = parseFloat(get("MarginV") || "");
+    const alignment = parseInt(get("Alignment") || "", 10);
+    // The legacy alignment of v4 styles uses 5-7 for the top.
+    const edge = section === "[v4 styles]"
+      ? alignment < 4 || (alignment >= 5 && alignment <= 7)
+      : alignment < 4 || alignment > 6;
+    if (style.marginShift && !isNaN(marginV) && edge) {
+      set("MarginV", Math.max(Math.round(marginV + style.marginShift/100*playResY), 0).toString());
+    }
+
+    lines[i] = type + ": " + values.join(", ");
+  }
+
+  return lines.join("\n");
+}
\ No newline at end of file
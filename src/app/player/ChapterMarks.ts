@@ -0,0 +1,40 @@
+import container from "../../config/inversify.config";
+import { IStorage, IStorageSymbol } from "../storage/IStorage";
+import { IChapterMarks } from "../media/player/Chapters";
+
+export interface ISeriesChapterMarks {
+  [series: string]: IChapterMarks;
+}
+
+const STORAGE_KEY = 'chapterMarks';
+
+/**
+ * Returns the chapter marks of a series that are used for all of its
+ * episodes.
+ * @param series the title of the series.
+ */
+export async function getChapterMarks(series: string): Promise<IChapterMarks|undefined> {
+  const storage = container.get<IStorage>(IStorageSymbol);
+  const marks = (await storage.get<ISeriesChapterMarks>(STORAGE_KEY)) || {};
+
+  return marks.hasOwnProperty(series) ? marks[series] : undefined;
+}
+
+/**
+ * Stores the chapter marks of a series. Series without marks aren't stored.
+ * @param series the title of the series.
+ * @param marks the chapter marks.
+ */
+export async function setChapterMarks(series: string, marks: IChapterMarks): Promise<void> {
+  const storage = container.get<IStorage>(IStorageSymbol);
+  const seriesMarks = (await storage.get<ISeriesChapterMarks>(STORAGE_KEY)) || {};
+
+  if (!marks.opening && !marks.ending) {
+    if (!seriesMarks.hasOwnProperty(series)) return;
+    delete seriesMarks[series];
+  } else {
+    seriesMarks[series] = marks;
+  }
+
+  await storage.set<ISeriesChapterMarks>(STORAGE_KEY, seriesMarks);
+}
\ No newline at end of file
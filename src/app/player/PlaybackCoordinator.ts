@@ -0,0 +1,74 @@
+import { IPlayerApi, PlaybackStateChangeEvent, PlaybackState } from "../media/player/IPlayerApi";
+import { EventHandler } from "../libs/events/EventHandler";
+import { Disposable } from "../libs/disposable/Disposable";
+import { IDisposable } from "../libs/disposable/IDisposable";
+import container from "../../config/inversify.config";
+import { IStorage, IStorageSymbol } from "../storage/IStorage";
+import { uuidv4 } from "../utils/string";
+
+interface IPlayingTab {
+  id: string;
+}
+
+const STORAGE_KEY = 'playingTab';
+
+/**
+ * Pauses the video when a video starts playing in another tab, so that only
+ * one tab at a time keeps playing.
+ */
+export class PlaybackCoordinator extends Disposable {
+  private _handler: EventHandler = new EventHandler(this);
+  private _storageListener: IDisposable;
+
+  private _api: IPlayerApi;
+  private _id: string = uuidv4();
+
+  /**
+   * Whether this tab is the one that has started playing last.
+   */
+  private _playing: boolean = false;
+
+  constructor(api: IPlayerApi) {
+    super();
+
+    this._api = api;
+
+    const storage = container.get<IStorage>(IStorageSymbol);
+    this._storageListener = storage.listen<IPlayingTab>(STORAGE_KEY, tab => this._onPlayingTabChange(tab));
+
+    this._handler
+      .listen(api, 'playbackstatechange', this._onPlaybackStateChange, false);
+  }
+
+  protected disposeInternal() {
+    super.disposeInternal();
+
+    this._handler.dispose();
+    this._storageListener.dispose();
+  }
+
+  private async _onPlaybackStateChange(e: PlaybackStateChangeEvent): Promise<void> {
+    // The video also starts playing again after buffering and seeking.
+    if (e.state !== PlaybackState.PLAYING || this._playing) return;
+    this._playing = true;
+
+    const storage = container.get<IStorage>(IStorageSymbol);
+    try {
+      await storage.set<IPlayingTab>(STORAGE_KEY, {
+        id: this._id
+      });
+    } catch (e) {
+      // Try again the next time the video starts playing.
+      this._playing = false;
+    }
+  }
+
+  private _onPlayingTabChange(tab: IPlayingTab|undefined) {
+    if (!tab || tab.id === this._id) return;
+    this._playing = false;
+
+    if (this._api.getPreferredPlaybackState() === PlaybackState.PLAYING) {
+      this._api.pauseVideo();
+    }
+  }
+}
\ No newline at end of file
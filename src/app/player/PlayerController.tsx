@@ -1,15 +1,25 @@
 import { h, render } from 'preact';
-import { Player, IPlayerConfig } from '../media/player/Player';
+import { Player, IPlayerConfig, IMiniPlayerPosition } from '../media/player/Player';
 import { getMediaByUrl, Formats, getMedia } from 'crunchyroll-lib/media';
 import { NextVideo } from '../media/nextvideo';
-import { NextVideoEvent, PlaybackState, VolumeChangeEvent } from '../media/player/IPlayerApi';
-import parse = require('url-parse');
+import { NextVideoEvent, PlaybackState, VolumeChangeEvent, LevelChangeEvent, AudioTrackChangeEvent, RateChangeEvent, SubtitleTrackChangeEvent, SubtitleDelayChangeEvent, SubtitleStyleChangeEvent, SecondarySubtitleTrackChangeEvent, SubtitleRendererChangeEvent, SubtitleRenderer, ChapterMarksChangeEvent, AutoSkipChangeEvent, AutoplayCountdownChangeEvent, QueueChangeEvent, IVideoDetail, PLAYBACK_RATES, AUTOPLAY_COUNTDOWNS } from '../media/player/IPlayerApi';
 import { IMedia } from 'crunchyroll-lib/models/IMedia';
 import { VideoTracker } from './Tracking';
-import { getCollectionCarouselDetail, getMediaMetadataFromDOM } from '../media/CollectionCarouselParser';
+import { WatchHistoryTracker, getResumeTime } from './WatchHistory';
+import { PlaybackCoordinator } from './PlaybackCoordinator';
+import { getSubtitleDelay, setSubtitleDelay } from './SubtitleDelay';
+import { getChapterMarks, setChapterMarks } from './ChapterMarks';
+import { getCollectionCarouselDetail, getMediaMetadataFromDOM, setCollectionCarouselCurrentMedia } from '../media/CollectionCarouselParser';
+import { getMediaId, getStartTime } from './StandardPlayer';
 import { getCollectionCarouselPage, ICollectionCarouselPage } from './crunchyroll';
 import container from "../../config/inversify.config";
-import { IStorageSymbol, IStorage } from '../storage/IStorage';
+import { IPreferences, IPreferencesSymbol, PreferenceChangeEvent } from '../preferences/IPreferences';
+import { EventHandler } from '../libs/events/EventHandler';
+import { BrowserEvent } from '../libs/events/BrowserEvent';
+import { getWatchQueue, setWatchQueue, indexOfMedia } from './WatchQueue';
+import { exportBackup, importBackup, parseBackup } from '../storage/Backup';
+import { downloadText } from '../utils/download';
+import { readFileAsText } from '../utils/file';
 
 export interface IPlayerControllerOptions {
   quality?: keyof Formats;
@@ -22,9 +32,14 @@ export interface IPlayerControllerOptions {
   affiliateId?: string;
 }
 
-declare interface IVolumeData {
-  volume: number;
-  muted: boolean;
+function getVideoDetail(nextVideo: NextVideo): IVideoDetail {
+  return {
+    title: nextVideo.episodeNumber + ': ' + nextVideo.episodeTitle,
+    seriesTitle: nextVideo.seriesTitle.trim() || undefined,
+    duration: typeof nextVideo.duration === 'number' ? nextVideo.duration : NaN,
+    url: nextVideo.url,
+    thumbnailUrl: nextVideo.thumbnailUrl
+  };
 }
 
 export class PlayerController {
@@ -42,12 +57,30 @@ export class PlayerController {
   private _mediaQuality?: string;
 
   private _player?: Player;
-  private _changedMedia: boolean = false;
+  private _media?: IMedia;
 
   private _tracking?: VideoTracker;
+  private _watchHistory?: WatchHistoryTracker;
+  private _playbackCoordinator?: PlaybackCoordinator;
 
   private _cachedCarouselPage?: ICollectionCarouselPage;
 
+  /**
+   * The next video in the collection carousel. It's played if the queue is
+   * empty.
+   */
+  private _carouselNextVideo?: IVideoDetail;
+  private _carouselObserver?: MutationObserver;
+
+  private _handler = new EventHandler(this);
+
+  /**
+   * Whether the mini-player has been closed. It's not shown again until the
+   * player has been scrolled back into view.
+   */
+  private _miniPlayerClosed: boolean = false;
+  private _miniPlayerEnabled: boolean = true;
+
   constructor(element: Element, url: string, mediaId: number, options?: IPlayerControllerOptions) {
     this._element = element;
     this._url = url;
@@ -85,43 +118,382 @@ export class PlayerController {
   }
 
   private async _onVolumeChange(e: VolumeChangeEvent): Promise<void> {
-    const volume = e.volume;
-    const muted = e.muted;
+    const preferences = container.get<IPreferences>(IPreferencesSymbol);
 
-    const storage = container.get<IStorage>(IStorageSymbol);
+    await preferences.update({
+      volume: e.volume,
+      muted: e.muted
+    });
+  }
 
-    const data = {
-      volume: volume,
-      muted: muted
-    } as IVolumeData;
+  private async _onShortcutsChange(): Promise<void> {
+    if (!this._player) return;
 
-    await storage.set<IVolumeData>('volume', data);
+    const preferences = container.get<IPreferences>(IPreferencesSymbol);
+    await preferences.set('shortcuts', this._player.getShortcuts().getCustomBindings());
+  }
+
+  private async _loadShortcuts(player: Player): Promise<void> {
+    const preferences = container.get<IPreferences>(IPreferencesSymbol);
+
+    const shortcuts = player.getShortcuts();
+    shortcuts.setCustomBindings(await preferences.get('shortcuts'));
+    shortcuts.listen('change', () => this._onShortcutsChange());
+  }
+
+  private async _onSubtitleTrackChange(e: SubtitleTrackChangeEvent): Promise<void> {
+    if (!this._player || !e.manual) return;
+
+    let language: string|undefined = "off";
+    if (e.track !== -1) {
+      const track = this._player.getApi().getSubtitlesTracks()[e.track];
+      language = track ? track.language : undefined;
+    }
+    if (!language) return;
+
+    const preferences = container.get<IPreferences>(IPreferencesSymbol);
+    await preferences.set('subtitleLanguage', language);
+  }
+
+  private async _onSubtitleDelayChange(e: SubtitleDelayChangeEvent): Promise<void> {
+    if (!this._media || !e.manual) return;
+
+    await setSubtitleDelay(this._media.getId(), e.delay);
+  }
+
+  private async _onSubtitleStyleChange(e: SubtitleStyleChangeEvent): Promise<void> {
+    if (!e.manual) return;
+
+    const preferences = container.get<IPreferences>(IPreferencesSymbol);
+    await preferences.set('subtitleStyle', e.style);
+  }
+
+  private async _onSecondarySubtitleTrackChange(e: SecondarySubtitleTrackChangeEvent): Promise<void> {
+    if (!this._player || !e.manual) return;
+
+    let language: string|undefined = "off";
+    if (e.track !== -1) {
+      const track = this._player.getApi().getSubtitlesTracks()[e.track];
+      language = track ? track.language : undefined;
+    }
+    if (!language) return;
+
+    const preferences = container.get<IPreferences>(IPreferencesSymbol);
+    await preferences.set('secondarySubtitleLanguage', language);
+  }
+
+  private async _onSubtitleRendererChange(e: SubtitleRendererChangeEvent): Promise<void> {
+    if (!e.manual) return;
+
+    const preferences = container.get<IPreferences>(IPreferencesSymbol);
+    await preferences.set('subtitleRenderer', e.renderer);
+  }
+
+  private async _onChapterMarksChange(e: ChapterMarksChangeEvent): Promise<void> {
+    if (!this._media || !e.manual) return;
+
+    await setChapterMarks(this._media.getMetadata().getSeriesTitle(), e.marks);
+  }
+
+  private async _onAutoSkipChange(e: AutoSkipChangeEvent): Promise<void> {
+    const preferences = container.get<IPreferences>(IPreferencesSymbol);
+    await preferences.set('autoSkip', e.autoSkip);
+  }
+
+  private async _onAutoplayCountdownChange(e: AutoplayCountdownChangeEvent): Promise<void> {
+    if (AUTOPLAY_COUNTDOWNS.indexOf(e.countdown) === -1) return;
+
+    const preferences = container.get<IPreferences>(IPreferencesSymbol);
+    await preferences.set('autoplayCountdown', e.countdown);
+  }
+
+  private async _onQueueChange(e: QueueChangeEvent): Promise<void> {
+    if (this._player && this._media) {
+      this._player.getApi().setNextVideoDetail(this._getNextVideo());
+    }
+    this._updateQueueButtons();
+
+    await setWatchQueue(e.queue);
+  }
+
+  /**
+   * Returns the first video in the queue or the next video in the collection
+   * carousel if the queue is empty.
+   */
+  private _getNextVideo(): IVideoDetail|undefined {
+    if (!this._player) return undefined;
+
+    const queue = this._player.getApi().getQueue();
+    return queue.length > 0 ? queue[0] : this._carouselNextVideo;
+  }
+
+  private _removeFromQueue(mediaId: number): void {
+    if (!this._player) return;
+
+    const api = this._player.getApi();
+    const queue = api.getQueue();
+    const index = indexOfMedia(queue, mediaId);
+    if (index === -1) return;
+
+    api.setQueue(queue.slice(0, index).concat(queue.slice(index + 1)));
+  }
+
+  private _toggleQueued(detail: IVideoDetail): void {
+    if (!this._player) return;
+
+    const api = this._player.getApi();
+    const mediaId = getMediaId(detail.url);
+    if (mediaId === undefined) return;
+
+    if (indexOfMedia(api.getQueue(), mediaId) === -1) {
+      api.setQueue(api.getQueue().concat([detail]));
+    } else {
+      this._removeFromQueue(mediaId);
+    }
+  }
+
+  /**
+   * Adds a button to the episodes in the collection carousel that adds them
+   * to the queue or removes them from it.
+   */
+  private _updateQueueButtons(): void {
+    if (!this._player) return;
+
+    const queue = this._player.getApi().getQueue();
+    const elements = document.querySelectorAll(".collection-carousel-media-link");
+    for (let i = 0; i < elements.length; i++) {
+      const nextVideo = NextVideo.fromElement(elements[i]);
+      if (!nextVideo) continue;
+
+      const mediaId = getMediaId(nextVideo.url);
+      if (mediaId === undefined) continue;
+
+      let button = elements[i].querySelector(".chrome-queue-add-button") as HTMLElement|null;
+      if (!button) {
+        const detail = getVideoDetail(nextVideo);
+        button = document.createElement("button");
+        button.className = "chrome-queue-add-button";
+        this._handler.listen(button, 'click', (e: BrowserEvent) => {
+          e.preventDefault();
+          e.stopPropagation();
+          this._toggleQueued(detail);
+        }, false);
+        elements[i].appendChild(button);
+      }
+
+      const queued = indexOfMedia(queue, mediaId) !== -1;
+      const label = queued ? "Remove from queue" : "Add to queue";
+      if (button.getAttribute("title") !== label) {
+        button.setAttribute("title", label);
+        button.setAttribute("aria-pressed", queued ? "true" : "false");
+        button.textContent = queued ? "✓" : "+";
+      }
+    }
+  }
+
+  private _observeCarousel(): void {
+    const carousel = document.querySelector(".collection-carousel");
+    if (!carousel || typeof MutationObserver === "undefined") return;
+
+    // The carousel loads more episodes when it's scrolled.
+    this._carouselObserver = new MutationObserver(() => this._updateQueueButtons());
+    this._carouselObserver.observe(carousel, { childList: true, subtree: true });
+  }
+
+  private async _onRateChange(e: RateChangeEvent): Promise<void> {
+    // The page may set a rate that can't be selected in the player.
+    if (PLAYBACK_RATES.indexOf(e.rate) === -1) return;
+
+    const preferences = container.get<IPreferences>(IPreferencesSymbol);
+    await preferences.set('playbackRate', e.rate);
+  }
+
+  private async _onLevelChange(e: LevelChangeEvent): Promise<void> {
+    if (!this._player) return;
+
+    let quality: string = "auto";
+    if (e.level !== -1) {
+      const level = this._player.getApi().getLevels()
+        .filter(level => level.id === e.level)[0];
+      if (!level || !level.height) return;
+
+      quality = level.height + "p";
+    }
+
+    const preferences = container.get<IPreferences>(IPreferencesSymbol);
+    await preferences.set('qualityLevel', quality);
+  }
+
+  private async _onAudioTrackChange(e: AudioTrackChangeEvent): Promise<void> {
+    if (!this._player) return;
+
+    const track = this._player.getApi().getAudioTracks()
+      .filter(track => track.id === e.track)[0];
+    if (!track || !track.language) return;
+
+    const preferences = container.get<IPreferences>(IPreferencesSymbol);
+    await preferences.set('audioLanguage', track.language);
   }
 
   private _onFullscreenChange(): void {
-    if (!this._player || this._player.getApi().isFullscreen()) return;
+    this._updateMiniPlayer();
+  }
+
+  /**
+   * Docks the player in a corner of the window when it's scrolled out of view
+   * while playing and restores it when it's scrolled back into view.
+   */
+  private _updateMiniPlayer(): void {
+    if (!this._player || !this._sizeEnabled) return;
+
+    const api = this._player.getApi();
+    if (api.isFullscreen()) return;
+
+    const rect = this._element.getBoundingClientRect();
+    if (!this._miniPlayerEnabled || (rect.bottom > 0 && rect.top < window.innerHeight)) {
+      this._miniPlayerClosed = false;
+      this._player.setMiniPlayer(false);
+    } else if (!this._miniPlayerClosed && api.getPlaybackState() === PlaybackState.PLAYING) {
+      this._player.setMiniPlayer(true);
+    }
+  }
+
+  private _onMiniPlayerClose(): void {
+    if (!this._player) return;
+
+    this._miniPlayerClosed = true;
+    this._player.setMiniPlayer(false);
+    this._player.getApi().pauseVideo();
+  }
+
+  private async _onMiniPlayerPositionChange(position: IMiniPlayerPosition): Promise<void> {
+    const preferences = container.get<IPreferences>(IPreferencesSymbol);
+    await preferences.set('miniPlayerPosition', position);
+  }
+
+  private async _loadMiniPlayerPosition(player: Player): Promise<void> {
+    const preferences = container.get<IPreferences>(IPreferencesSymbol);
+
+    this._miniPlayerEnabled = await preferences.get('miniPlayer');
+
+    const position = await preferences.get('miniPlayerPosition');
+    if (position) {
+      player.setMiniPlayerPosition(position);
+    }
+  }
+
+  /**
+   * Applies the preferences that have been changed in the preferences
+   * overlay or in another tab to the current video.
+   */
+  private _onPreferenceChange(e: PreferenceChangeEvent): void {
+    if (!this._player) return;
+
+    const api = this._player.getApi();
+    switch (e.key) {
+      case 'volume':
+        api.setVolume(e.value as number);
+        break;
+      case 'muted':
+        api.setMuted(e.value as boolean);
+        break;
+      case 'playbackRate':
+        if (api.getPlaybackRate() !== e.value) {
+          api.setPlaybackRate(e.value as number);
+        }
+        break;
+      case 'qualityLevel':
+        this._applyQualityLevel(e.value as string);
+        break;
+      case 'subtitleLanguage':
+        this._applySubtitleLanguage(e.value as string|undefined);
+        break;
+      case 'autoSkip':
+        api.setAutoSkip(e.value as boolean);
+        break;
+      case 'autoplayCountdown':
+        api.setAutoplayCountdown(e.value as number);
+        break;
+      case 'subtitleRenderer':
+        api.setSubtitleRenderer(e.value as SubtitleRenderer);
+        break;
+      case 'miniPlayer':
+        this._miniPlayerEnabled = e.value as boolean;
+        this._updateMiniPlayer();
+        break;
+    }
+  }
+
+  /**
+   * Selects the quality level, e.g. `720p`, or lets the player select it if
+   * it's `auto`.
+   */
+  private _applyQualityLevel(quality: string): void {
+    if (!this._player) return;
 
-    // Don't do anything if the media hasn't changed
-    if (!this._changedMedia) return;
+    const api = this._player.getApi();
+    if (quality === "auto") {
+      api.setLevel(-1);
+      return;
+    }
+
+    const level = api.getLevels()
+      .filter(level => level.height + "p" === quality)[0];
+    if (level && level.id !== api.getLevel()) {
+      api.setLevel(level.id);
+    }
+  }
+
+  /**
+   * Selects the subtitle track of a language or turns the subtitles off if
+   * it's `off`. The current track is kept if there's no track of the language.
+   */
+  private _applySubtitleLanguage(language: string|undefined): void {
+    if (!this._player || language === undefined) return;
 
     const api = this._player.getApi();
+    let track = -1;
+    if (language !== "off") {
+      track = api.getSubtitlesTracks()
+        .map(track => track.language)
+        .indexOf(language);
+      if (track === -1) return;
+    }
 
-    // Redirect the page to the current media
-    const url = parse(this._url, true);
-    if (!url.query) {
-      url.query = {};
+    if (track !== api.getSubtitleTrack()) {
+      api.setSubtitleTrack(track);
     }
-    url.query['t'] = Math.floor(api.getCurrentTime()).toString();
+  }
+
+  private async _onBackupExport(): Promise<void> {
+    const backup = await exportBackup();
+    const date = backup.created.substring(0, 10);
+
+    downloadText(JSON.stringify(backup, null, 2), "crunchyroll-html5-backup-" + date + ".json", 'application/json');
+  }
+
+  private async _onBackupImport(file: File, overwrite: boolean): Promise<void> {
+    const backup = parseBackup(await readFileAsText(file));
+    await importBackup(backup, overwrite ? 'overwrite' : 'merge');
 
-    location.href = url.toString();
+    // The player has already loaded the previous data.
+    window.location.reload();
   }
 
   private async _loadMedia(media: IMedia): Promise<void> {
     if (!this._player) return;
+    this._media = media;
     if (this._tracking) {
       this._tracking.dispose();
       this._tracking = undefined;
     }
+    if (this._watchHistory) {
+      this._watchHistory.dispose();
+      this._watchHistory = undefined;
+    }
+
+    this._carouselNextVideo = undefined;
+    this._removeFromQueue(parseInt(media.getId(), 10));
 
     const metadata = media.getMetadata();
     const stream = media.getStream();
@@ -129,8 +501,16 @@ export class PlayerController {
     // Construct a title
     const title = metadata.getSeriesTitle() + " Episode " + metadata.getEpisodeNumber() + " – " + metadata.getEpisodeTitle();
 
+    // Name downloads like `Series - 01 - Title`
+    const episodeNumber = metadata.getEpisodeNumber();
+    const filename = metadata.getSeriesTitle()
+      + " - " + (/^\d$/.test(episodeNumber) ? "0" + episodeNumber : episodeNumber)
+      + " - " + metadata.getEpisodeTitle();
+
     const videoConfig = {
+      mediaId: media.getId(),
       title: title,
+      filename: filename,
       url: stream.getFile(),
       duration: stream.getDuration(),
       subtitles: media.getSubtitles(),
@@ -139,12 +519,30 @@ export class PlayerController {
       thumbnailUrl: metadata.getEpisodeImageUrl()
     } as IPlayerConfig;
 
-    const storage = container.get<IStorage>(IStorageSymbol);
+    const preferences = container.get<IPreferences>(IPreferencesSymbol);
 
-    const volumeData = await storage.get<IVolumeData>('volume');
-    if (volumeData) {
-      videoConfig.muted = volumeData.muted;
-      videoConfig.volume = volumeData.volume;
+    // The page decides whether to autoplay unless the user has disabled it.
+    if (this._autoPlay === undefined && !(await preferences.get('autoplay'))) {
+      videoConfig.autoplay = false;
+    }
+
+    videoConfig.muted = await preferences.get('muted');
+    videoConfig.volume = await preferences.get('volume');
+    videoConfig.quality = await preferences.get('qualityLevel');
+    videoConfig.audioLanguage = await preferences.get('audioLanguage');
+    videoConfig.playbackRate = await preferences.get('playbackRate');
+    videoConfig.subtitleLanguage = await preferences.get('subtitleLanguage');
+    videoConfig.secondarySubtitleLanguage = await preferences.get('secondarySubtitleLanguage');
+    videoConfig.subtitleDelay = await getSubtitleDelay(media.getId());
+    videoConfig.subtitleRenderer = await preferences.get('subtitleRenderer');
+    videoConfig.subtitleStyle = await preferences.get('subtitleStyle');
+    videoConfig.chapterMarks = await getChapterMarks(metadata.getSeriesTitle());
+    videoConfig.autoSkip = await preferences.get('autoSkip');
+    videoConfig.autoplayCountdown = await preferences.get('autoplayCountdown');
+
+    // Resume from the watch history if there's no explicit start time
+    if (this._startTime === undefined) {
+      videoConfig.resumeTime = await getResumeTime(media.getId());
     }
 
     // Register the next video if there's one
@@ -169,16 +567,13 @@ export class PlayerController {
         }
       }
       if (nextVideo) {
-        videoConfig.nextVideo = {
-          title: nextVideo.episodeNumber + ': ' + nextVideo.episodeTitle,
-          duration: typeof nextVideo.duration === 'number' ? nextVideo.duration : NaN,
-          url: nextVideo.url,
-          thumbnailUrl: nextVideo.thumbnailUrl
-        };
+        this._carouselNextVideo = getVideoDetail(nextVideo);
       }
     }
+    videoConfig.nextVideo = this._getNextVideo();
 
     this._tracking = new VideoTracker(media, this._player.getApi());
+    this._watchHistory = new WatchHistoryTracker(media.getId(), this._player.getApi());
 
     if (videoConfig.autoplay) {
       this._player.loadVideoByConfig(videoConfig);
@@ -190,43 +585,100 @@ export class PlayerController {
   private async _onNextVideo(e: NextVideoEvent): Promise<void> {
     if (!this._player) return;
 
-    if (!this._player.getApi().isFullscreen()) {
-      window.location.href = e.detail.url;
-      return;
+    const detail = e.detail;
+
+    // Only media pages follow the media in their URL, e.g. not the affiliate
+    // player.
+    if (getMediaId(window.location.href) !== undefined) {
+      try {
+        history.pushState({ url: detail.url }, "", detail.url);
+      } catch (err) {
+        // The URL is on another origin.
+        window.location.href = detail.url;
+        return;
+      }
     }
 
-    const detail = e.detail;
+    await this._loadMediaByUrl(detail.url, detail.thumbnailUrl);
+  }
+
+  private async _onPopState(): Promise<void> {
+    const url = window.location.href;
+    const mediaId = getMediaId(url);
+    if (mediaId === undefined || mediaId === getMediaId(this._url)) return;
+
+    await this._loadMediaByUrl(url);
+  }
+
+  /**
+   * Replaces the current media with the media of a URL without reloading the
+   * page.
+   * @param url the URL of the media.
+   * @param thumbnailUrl the thumbnail that's shown while the media is loading.
+   */
+  private async _loadMediaByUrl(url: string, thumbnailUrl?: string): Promise<void> {
+    if (!this._player) return;
 
-    this._url = detail.url;
-    this._changedMedia = true;
+    this._url = url;
     this._autoPlay = true;
-    this._startTime = undefined;
+    this._startTime = getStartTime(url);
+    this._media = undefined;
 
     if (this._tracking) {
       this._tracking.dispose();
       this._tracking = undefined;
     }
+    if (this._watchHistory) {
+      this._watchHistory.dispose();
+      this._watchHistory = undefined;
+    }
 
     this._player.loadVideoByConfig({
-      thumbnailUrl: detail.thumbnailUrl
+      thumbnailUrl: thumbnailUrl
     });
 
     let media: IMedia;
-    if (this._mediaFormat && this._mediaQuality) {
-      media = await getMediaByUrl(detail.url, this._mediaFormat, this._mediaQuality, {
-        affiliateId: this._affiliateId,
-        autoPlay: true
-      });
-    } else {
-      media = await getMediaByUrl(detail.url, this._quality, {
-        affiliateId: this._affiliateId,
-        autoPlay: true
-      });
+    try {
+      if (this._mediaFormat && this._mediaQuality) {
+        media = await getMediaByUrl(url, this._mediaFormat, this._mediaQuality, {
+          affiliateId: this._affiliateId,
+          autoPlay: true
+        });
+      } else {
+        media = await getMediaByUrl(url, this._quality, {
+          affiliateId: this._affiliateId,
+          autoPlay: true
+        });
+      }
+    } catch (e) {
+      // Let the page load the media instead.
+      if (this._url === url) {
+        window.location.href = url;
+      }
+      return;
     }
 
+    // Another media has been requested in the meantime.
+    if (this._url !== url) return;
+
+    this._updatePage(media);
     await this._loadMedia(media);
   }
 
+  /**
+   * Updates the parts of the page that refer to the media.
+   * @param media the media that's playing.
+   */
+  private _updatePage(media: IMedia): void {
+    const metadata = media.getMetadata();
+
+    this._mediaId = parseInt(media.getId(), 10);
+    document.title = "Crunchyroll - Watch " + metadata.getSeriesTitle()
+      + " Episode " + metadata.getEpisodeNumber() + " - " + metadata.getEpisodeTitle();
+
+    setCollectionCarouselCurrentMedia(this._mediaId);
+  }
+
   /**
    * Initial loading of player and the media to play.
    * @param player the player reference
@@ -237,6 +689,33 @@ export class PlayerController {
     api.listen('fullscreenchange', () => this._onFullscreenChange());
     api.listen('nextvideo', (e: NextVideoEvent) => this._onNextVideo(e));
     api.listen('volumechange', (e: VolumeChangeEvent) => this._onVolumeChange(e));
+    api.listen('ratechange', (e: RateChangeEvent) => this._onRateChange(e));
+    api.listen('levelchange', (e: LevelChangeEvent) => this._onLevelChange(e));
+    api.listen('audiotrackchange', (e: AudioTrackChangeEvent) => this._onAudioTrackChange(e));
+    api.listen('subtitletrackchange', (e: SubtitleTrackChangeEvent) => this._onSubtitleTrackChange(e));
+    api.listen('secondarysubtitletrackchange', (e: SecondarySubtitleTrackChangeEvent) => this._onSecondarySubtitleTrackChange(e));
+    api.listen('subtitledelaychange', (e: SubtitleDelayChangeEvent) => this._onSubtitleDelayChange(e));
+    api.listen('subtitlerendererchange', (e: SubtitleRendererChangeEvent) => this._onSubtitleRendererChange(e));
+    api.listen('subtitlestylechange', (e: SubtitleStyleChangeEvent) => this._onSubtitleStyleChange(e));
+    api.listen('chaptermarkschange', (e: ChapterMarksChangeEvent) => this._onChapterMarksChange(e));
+    api.listen('autoskipchange', (e: AutoSkipChangeEvent) => this._onAutoSkipChange(e));
+    api.listen('autoplaycountdownchange', (e: AutoplayCountdownChangeEvent) => this._onAutoplayCountdownChange(e));
+    api.listen('playbackstatechange', () => this._updateMiniPlayer());
+
+    this._playbackCoordinator = new PlaybackCoordinator(api);
+
+    this._handler
+      .listen(window, 'scroll', this._updateMiniPlayer, { passive: true })
+      .listen(window, 'popstate', this._onPopState, false)
+      .listen(container.get<IPreferences>(IPreferencesSymbol), 'change', this._onPreferenceChange, false);
+
+    await this._loadShortcuts(player);
+    await this._loadMiniPlayerPosition(player);
+
+    api.setQueue(await getWatchQueue());
+    api.listen('queuechange', (e: QueueChangeEvent) => this._onQueueChange(e));
+    this._updateQueueButtons();
+    this._observeCarousel();
 
     let media: IMedia;
 
@@ -302,11 +781,21 @@ export class PlayerController {
   render(): void {
     const onSizeChange = (large: boolean) => this._onSizeChange(large);
     const onPlayerReady = (player: Player) => this._onPlayerReady(player);
+    const onMiniPlayerClose = () => this._onMiniPlayerClose();
+    const onMiniPlayerPositionChange = (position: IMiniPlayerPosition) => this._onMiniPlayerPositionChange(position);
+    const onBackupExport = () => this._onBackupExport();
+    const onBackupImport = (file: File, overwrite: boolean) => this._onBackupImport(file, overwrite);
+    const preferences = container.get<IPreferences>(IPreferencesSymbol);
 
     render((
       <Player
         ref={onPlayerReady}
         onSizeChange={onSizeChange}
+        onMiniPlayerClose={onMiniPlayerClose}
+        onMiniPlayerPositionChange={onMiniPlayerPositionChange}
+        preferences={preferences}
+        onBackupExport={onBackupExport}
+        onBackupImport={onBackupImport}
         large={this.large}
         sizeEnabled={this.isSizeEnabled()}
         config={this._getDefaultConfig()}></Player>
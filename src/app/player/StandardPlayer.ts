@@ -1,5 +1,5 @@
 import * as parseUrl from 'url-parse';
-import { IStorageSymbol, IStorage } from '../storage/IStorage';
+import { IPreferences, IPreferencesSymbol } from '../preferences/IPreferences';
 import container from "../../config/inversify.config";
 import "../libs/polyfill/DOMTokenList";
 
@@ -63,11 +63,11 @@ export async function updateQualitySettings(): Promise<void> {
     }
   }
   
-  const storage = container.get<IStorage>(IStorageSymbol);
+  const preferences = container.get<IPreferences>(IPreferencesSymbol);
   // get and check saved quality
-  let savedQuality: string|undefined = await storage.get<string>("resolution");
+  let savedQuality: string|undefined = await preferences.get("quality");
   if (savedQuality === undefined || (qualityOverride !== undefined && qualityOverride !== savedQuality)) {
-    storage.set<string>("resolution", qualityOverride !== undefined ? qualityOverride : quality);
+    preferences.set("quality", qualityOverride !== undefined ? qualityOverride : quality);
     savedQuality = qualityOverride;
   }
   qualityOverride = savedQuality;
@@ -0,0 +1,79 @@
+import container from "../../config/inversify.config";
+import { IStorage, IStorageSymbol } from "../storage/IStorage";
+
+export interface ISubtitleDelayEntry {
+  /**
+   * The delay in seconds.
+   */
+  delay: number;
+
+  /**
+   * The timestamp of the last update.
+   */
+  updated: number;
+}
+
+export interface ISubtitleDelays {
+  [mediaId: string]: ISubtitleDelayEntry;
+}
+
+const STORAGE_KEY = 'subtitleDelays';
+
+/**
+ * The maximum number of entries, the least recently updated are removed first.
+ */
+const MAX_ENTRIES = 500;
+
+/**
+ * The last pending update of the subtitle delays. The updates are chained so
+ * that they don't overwrite each other.
+ */
+let pendingUpdate: Promise<void> = Promise.resolve();
+
+/**
+ * Returns the stored subtitle delay of a media in seconds.
+ * @param mediaId the media ID.
+ */
+export async function getSubtitleDelay(mediaId: string): Promise<number> {
+  const storage = container.get<IStorage>(IStorageSymbol);
+  const delays = (await storage.get<ISubtitleDelays>(STORAGE_KEY)) || {};
+
+  return delays.hasOwnProperty(mediaId) ? delays[mediaId].delay : 0;
+}
+
+/**
+ * Stores the subtitle delay of a media. Media without a delay aren't stored.
+ * @param mediaId the media ID.
+ * @param delay the delay in seconds.
+ */
+export function setSubtitleDelay(mediaId: string, delay: number): Promise<void> {
+  const update = pendingUpdate
+    .then(() => setSubtitleDelayInternal(mediaId, delay));
+  pendingUpdate = update.catch(() => {});
+
+  return update;
+}
+
+async function setSubtitleDelayInternal(mediaId: string, delay: number): Promise<void> {
+  const storage = container.get<IStorage>(IStorageSymbol);
+  const delays = (await storage.get<ISubtitleDelays>(STORAGE_KEY)) || {};
+
+  if (delay === 0) {
+    delete delays[mediaId];
+  } else {
+    delays[mediaId] = {
+      delay: delay,
+      updated: Date.now()
+    };
+  }
+
+  const ids = Object.keys(delays);
+  if (ids.length > MAX_ENTRIES) {
+    ids.sort((a, b) => delays[a].updated - delays[b].updated);
+    for (let i = 0; i < ids.length - MAX_ENTRIES; i++) {
+      delete delays[ids[i]];
+    }
+  }
+
+  await storage.set<ISubtitleDelays>(STORAGE_KEY, delays);
+}
\ No newline at end of file
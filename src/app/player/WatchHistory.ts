@@ -0,0 +1,197 @@
+import { IPlayerApi, TimeUpdateEvent, SeekEvent, PlaybackStateChangeEvent, PlaybackState } from "../media/player/IPlayerApi";
+import { EventHandler } from "../libs/events/EventHandler";
+import { Disposable } from "../libs/disposable/Disposable";
+import container from "../../config/inversify.config";
+import { IStorage, IStorageSymbol } from "../storage/IStorage";
+
+export interface IWatchHistoryEntry {
+  /**
+   * The playhead in seconds.
+   */
+  time: number;
+  duration: number;
+
+  /**
+   * Whether the media has been watched past the threshold at least once.
+   */
+  watched: boolean;
+
+  /**
+   * The timestamp of the last update.
+   */
+  updated: number;
+}
+
+export interface IWatchHistory {
+  [mediaId: string]: IWatchHistoryEntry;
+}
+
+const STORAGE_KEY = 'watchHistory';
+
+/**
+ * The maximum number of entries, the least recently updated are removed first.
+ */
+const MAX_ENTRIES = 1000;
+
+/**
+ * The fraction of the duration after which the media counts as watched.
+ */
+export const WATCHED_THRESHOLD = 0.9;
+
+/**
+ * The minimum playhead in seconds before it's worth resuming.
+ */
+const MIN_RESUME_TIME = 10;
+
+/**
+ * The minimum amount of played seconds between saving the playhead.
+ */
+const SAVE_INTERVAL = 10;
+
+export async function getWatchHistory(): Promise<IWatchHistory> {
+  const storage = container.get<IStorage>(IStorageSymbol);
+
+  return (await storage.get<IWatchHistory>(STORAGE_KEY)) || {};
+}
+
+export async function getWatchHistoryEntry(mediaId: string): Promise<IWatchHistoryEntry|undefined> {
+  const history = await getWatchHistory();
+
+  return history.hasOwnProperty(mediaId) ? history[mediaId] : undefined;
+}
+
+/**
+ * Returns the time to resume the media from or undefined if it should start
+ * from the beginning.
+ * @param mediaId the media ID.
+ */
+export async function getResumeTime(mediaId: string): Promise<number|undefined> {
+  const entry = await getWatchHistoryEntry(mediaId);
+  if (!entry || entry.time < MIN_RESUME_TIME) return undefined;
+  if (entry.duration > 0 && entry.time >= entry.duration*WATCHED_THRESHOLD) return undefined;
+
+  return entry.time;
+}
+
+/**
+ * The last pending update of the watch history. The updates are chained so
+ * that they don't overwrite each other.
+ */
+let pendingUpdate: Promise<void> = Promise.resolve();
+
+function updateWatchHistoryEntry(mediaId: string, time: number, duration: number): Promise<void> {
+  const updated = Date.now();
+  const update = pendingUpdate
+    .then(() => updateWatchHistoryEntryInternal(mediaId, time, duration, updated));
+  pendingUpdate = update.catch(() => {});
+
+  return update;
+}
+
+async function updateWatchHistoryEntryInternal(mediaId: string, time: number, duration: number, updated: number): Promise<void> {
+  const storage = container.get<IStorage>(IStorageSymbol);
+
+  // The history is read right before it's written so that only this entry is
+  // replaced and the entries of other tabs are kept.
+  const history = await getWatchHistory();
+
+  const entry = history[mediaId];
+  const watched = duration > 0 && time >= duration*WATCHED_THRESHOLD;
+
+  if (entry && entry.updated > updated) {
+    // The entry has been updated more recently by another tab.
+    if (watched && !entry.watched) {
+      entry.watched = true;
+      await storage.set<IWatchHistory>(STORAGE_KEY, history);
+    }
+    return;
+  }
+
+  history[mediaId] = {
+    time: time,
+    duration: duration,
+    watched: watched || (!!entry && entry.watched),
+    updated: updated
+  };
+
+  const ids = Object.keys(history);
+  if (ids.length > MAX_ENTRIES) {
+    ids.sort((a, b) => history[a].updated - history[b].updated);
+    for (let i = 0; i < ids.length - MAX_ENTRIES; i++) {
+      delete history[ids[i]];
+    }
+  }
+
+  await storage.set<IWatchHistory>(STORAGE_KEY, history);
+}
+
+/**
+ * Records the playhead of the media in the watch history while it's playing.
+ */
+export class WatchHistoryTracker extends Disposable {
+  private _handler: EventHandler = new EventHandler(this);
+
+  private _mediaId: string;
+  private _api: IPlayerApi;
+  private _elapsedTime: number = 0;
+
+  /**
+   * The time of the last time update or undefined if the video hasn't been
+   * playing yet, e.g. before it starts at the resume time.
+   */
+  private _lastTime?: number;
+
+  constructor(mediaId: string, api: IPlayerApi) {
+    super();
+
+    this._mediaId = mediaId;
+    this._api = api;
+
+    this._handler
+      .listen(api, 'playbackstatechange', this._onPlaybackStateChange, false)
+      .listen(api, 'seek', this._onSeek, false)
+      .listen(api, 'timeupdate', this._onTimeUpdate, false);
+  }
+
+  protected disposeInternal() {
+    super.disposeInternal();
+
+    this._handler.dispose();
+  }
+
+  private _save(time: number) {
+    this._elapsedTime = 0;
+
+    updateWatchHistoryEntry(this._mediaId, time, this._api.getDuration())
+      .catch(() => {
+        // The storage is unavailable, the playhead is saved again after the
+        // next interval.
+      });
+  }
+
+  private _onPlaybackStateChange(e: PlaybackStateChangeEvent) {
+    if (e.state === PlaybackState.ENDED) {
+      this._save(this._api.getDuration());
+    } else if (e.state === PlaybackState.PAUSED && this._elapsedTime > 0) {
+      this._save(this._api.getCurrentTime());
+    }
+  }
+
+  private _onSeek(e: SeekEvent) {
+    this._lastTime = e.time;
+  }
+
+  private _onTimeUpdate(e: TimeUpdateEvent) {
+    const lastTime = this._lastTime;
+    this._lastTime = e.time;
+    if (lastTime === undefined) return;
+
+    const dt = Math.max(e.time - lastTime, 0);
+
+    this._elapsedTime += dt;
+
+    if (this._elapsedTime >= SAVE_INTERVAL) {
+      this._save(e.time);
+    }
+  }
+}
\ No newline at end of file
@@ -0,0 +1,35 @@
+import container from "../../config/inversify.config";
+import { IStorage, IStorageSymbol } from "../storage/IStorage";
+import { IVideoDetail } from "../media/player/IPlayerApi";
+import { getMediaId } from "./StandardPlayer";
+
+const STORAGE_KEY = 'watchQueue';
+
+/**
+ * Returns the videos that the user has queued to watch next.
+ */
+export async function getWatchQueue(): Promise<IVideoDetail[]> {
+  const storage = container.get<IStorage>(IStorageSymbol);
+
+  return (await storage.get<IVideoDetail[]>(STORAGE_KEY)) || [];
+}
+
+export async function setWatchQueue(queue: IVideoDetail[]): Promise<void> {
+  const storage = container.get<IStorage>(IStorageSymbol);
+
+  await storage.set<IVideoDetail[]>(STORAGE_KEY, queue);
+}
+
+/**
+ * Returns the index of a media in the queue or -1 if it's not queued.
+ * @param queue the queue.
+ * @param mediaId the ID of the media.
+ */
+export function indexOfMedia(queue: IVideoDetail[], mediaId: number): number {
+  for (let i = 0; i < queue.length; i++) {
+    if (getMediaId(queue[i].url) === mediaId) {
+      return i;
+    }
+  }
+  return -1;
+}
\ No newline at end of file
@@ -0,0 +1,123 @@
+import { EventTarget } from '../libs/events/EventTarget';
+import { Event } from '../libs/events/Event';
+import { SubtitleRenderer } from '../media/player/IPlayerApi';
+import { ISubtitleStyle } from '../media/subtitles/SubtitleStyle';
+import { IShortcutBindings } from '../media/player/KeyboardShortcuts';
+import { IMiniPlayerPosition } from '../media/player/Player';
+
+/**
+ * The preferences of the user and their types.
+ */
+export interface IPreferenceValues {
+  /**
+   * Whether the video starts playing when the page is opened.
+   */
+  autoplay: boolean;
+  volume: number;
+  muted: boolean;
+
+  /**
+   * The stream quality that's selected on the page, e.g. `720p`.
+   */
+  quality: string|undefined;
+
+  /**
+   * The quality level that the player is locked to, e.g. `720p`, or `auto`
+   * to let it adapt to the bandwidth.
+   */
+  qualityLevel: string;
+  audioLanguage: string|undefined;
+
+  /**
+   * The preferred subtitle language or "off" to disable subtitles.
+   */
+  subtitleLanguage: string|undefined;
+  secondarySubtitleLanguage: string|undefined;
+  subtitleRenderer: SubtitleRenderer;
+  subtitleStyle: ISubtitleStyle;
+  playbackRate: number;
+
+  /**
+   * Whether the opening and ending are skipped automatically.
+   */
+  autoSkip: boolean;
+
+  /**
+   * The countdown in seconds before the next video is played or 0 to disable
+   * autoplay.
+   */
+  autoplayCountdown: number;
+
+  /**
+   * The time in milliseconds after which the controls are hidden when the
+   * mouse stops moving.
+   */
+  autoHideDelay: number;
+
+  /**
+   * The seconds that the arrow keys seek by.
+   */
+  seekStep: number;
+
+  /**
+   * The seconds that `J` and `L` seek by.
+   */
+  longSeekStep: number;
+
+  /**
+   * Whether the player is docked in a corner when it's scrolled out of view.
+   */
+  miniPlayer: boolean;
+  miniPlayerPosition: IMiniPlayerPosition|undefined;
+  shortcuts: IShortcutBindings;
+}
+
+export type PreferenceKey = keyof IPreferenceValues;
+
+export class PreferenceChangeEvent<K extends PreferenceKey = PreferenceKey> extends Event {
+  constructor(public key: K, public value: IPreferenceValues[K]) {
+    super('change');
+  }
+}
+
+export interface IPreferences extends EventTarget {
+  /**
+   * Returns the value of a preference or its default if it hasn't been set.
+   * @param key the key of the preference.
+   */
+  get<K extends PreferenceKey>(key: K): Promise<IPreferenceValues[K]>;
+
+  /**
+   * Sets the value of a preference. It throws if the value is invalid.
+   * @param key the key of the preference.
+   * @param value the value of the preference.
+   */
+  set<K extends PreferenceKey>(key: K, value: IPreferenceValues[K]): Promise<void>;
+
+  /**
+   * Sets the values of several preferences at once. It throws without
+   * setting any of them if a value is invalid.
+   * @param values the values by the key of their preference.
+   */
+  update(values: Partial<IPreferenceValues>): Promise<void>;
+
+  /**
+   * Resets a preference to its default.
+   * @param key the key of the preference.
+   */
+  reset(key: PreferenceKey): Promise<void>;
+
+  /**
+   * Returns the values of all preferences.
+   */
+  getAll(): Promise<IPreferenceValues>;
+
+  /**
+   * Loads the preferences again after they have been changed elsewhere, e.g.
+   * in another tab. A change event is dispatched for each preference that
+   * has changed.
+   */
+  reload(): Promise<void>;
+}
+
+export const IPreferencesSymbol = Symbol.for("IPreferences");
\ No newline at end of file
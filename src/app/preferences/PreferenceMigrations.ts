@@ -0,0 +1,40 @@
+import { IStorage } from '../storage/IStorage';
+import { IPreferenceValues } from './IPreferences';
+
+export type StoredPreferenceValues = {
+  [K in keyof IPreferenceValues]?: IPreferenceValues[K];
+};
+
+/**
+ * Upgrades the stored preferences by one version. It may read and remove the
+ * storage keys that older versions used.
+ */
+export type PreferenceMigration = (storage: IStorage, values: StoredPreferenceValues) => Promise<void>;
+
+interface ILegacyVolumeData {
+  volume: number;
+  muted: boolean;
+}
+
+/**
+ * The migrations in the order of the versions they upgrade to, i.e. the
+ * first one upgrades to version 1.
+ */
+export const PREFERENCE_MIGRATIONS: PreferenceMigration[] = [
+  // Moves the preferences out of their separate storage keys.
+  async (storage: IStorage, values: StoredPreferenceValues) => {
+    // The stream quality of the page was stored as the resolution.
+    const resolution = await storage.get<string>('resolution');
+    if (resolution !== undefined) {
+      values.quality = resolution;
+      await storage.remove('resolution');
+    }
+
+    const volumeData = await storage.get<ILegacyVolumeData>('volume');
+    if (volumeData) {
+      values.volume = volumeData.volume;
+      values.muted = volumeData.muted;
+      await storage.remove('volume');
+    }
+  }
+];
\ No newline at end of file
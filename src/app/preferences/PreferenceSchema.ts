@@ -0,0 +1,66 @@
+import { IPreferenceValues } from './IPreferences';
+import { PLAYBACK_RATES, AUTOPLAY_COUNTDOWNS } from '../media/player/IPlayerApi';
+
+export interface IPreferenceDefinition<T> {
+  default: T;
+
+  /**
+   * Returns whether a value is valid for the preference. Invalid stored values
+   * are replaced by the default.
+   */
+  validate: (value: any) => boolean;
+}
+
+export type PreferenceSchema = {
+  [K in keyof IPreferenceValues]: IPreferenceDefinition<IPreferenceValues[K]>;
+};
+
+function isBoolean(value: any): boolean {
+  return typeof value === 'boolean';
+}
+
+function isString(value: any): boolean {
+  return typeof value === 'string';
+}
+
+function isOptionalString(value: any): boolean {
+  return value === undefined || typeof value === 'string';
+}
+
+function isObject(value: any): boolean {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isNumberBetween(min: number, max: number): (value: any) => boolean {
+  return (value: any) => typeof value === 'number' && isFinite(value) && value >= min && value <= max;
+}
+
+function isOneOf(values: any[]): (value: any) => boolean {
+  return (value: any) => values.indexOf(value) !== -1;
+}
+
+export const PREFERENCE_SCHEMA: PreferenceSchema = {
+  autoplay: { default: true, validate: isBoolean },
+  volume: { default: 1, validate: isNumberBetween(0, 1) },
+  muted: { default: false, validate: isBoolean },
+  quality: { default: undefined, validate: isOptionalString },
+  qualityLevel: { default: 'auto', validate: isString },
+  audioLanguage: { default: undefined, validate: isOptionalString },
+  subtitleLanguage: { default: undefined, validate: isOptionalString },
+  secondarySubtitleLanguage: { default: undefined, validate: isOptionalString },
+  subtitleRenderer: { default: 'libass', validate: isOneOf(['libass', 'basic']) },
+  subtitleStyle: { default: {}, validate: isObject },
+  playbackRate: { default: 1, validate: isOneOf(PLAYBACK_RATES) },
+  autoSkip: { default: false, validate: isBoolean },
+  autoplayCountdown: { default: 0, validate: isOneOf(AUTOPLAY_COUNTDOWNS) },
+  autoHideDelay: { default: 3000, validate: isNumberBetween(500, 60000) },
+  seekStep: { default: 5, validate: isNumberBetween(1, 300) },
+  longSeekStep: { default: 10, validate: isNumberBetween(1, 300) },
+  miniPlayer: { default: true, validate: isBoolean },
+  miniPlayerPosition: {
+    default: undefined,
+    validate: (value: any) => value === undefined || (isObject(value)
+      && typeof value.right === 'number' && typeof value.bottom === 'number' && typeof value.width === 'number')
+  },
+  shortcuts: { default: {}, validate: isObject }
+};
\ No newline at end of file
@@ -0,0 +1,163 @@
+import { injectable, inject } from 'inversify';
+import { EventTarget } from '../libs/events/EventTarget';
+import { IStorage, IStorageSymbol } from '../storage/IStorage';
+import { IDisposable } from '../libs/disposable/IDisposable';
+import { IPreferences, IPreferenceValues, PreferenceKey, PreferenceChangeEvent } from './IPreferences';
+import { PREFERENCE_SCHEMA } from './PreferenceSchema';
+import { PREFERENCE_MIGRATIONS, StoredPreferenceValues } from './PreferenceMigrations';
+import * as _ from 'lodash';
+
+const STORAGE_KEY = 'preferences';
+
+interface IStoredPreferences {
+  version: number;
+  values: StoredPreferenceValues;
+}
+
+@injectable()
+export class Preferences extends EventTarget implements IPreferences {
+  private _values: Promise<StoredPreferenceValues>|undefined = undefined;
+  private _storageListener: IDisposable;
+
+  constructor(
+    @inject(IStorageSymbol) private _storage: IStorage
+  ) {
+    super();
+
+    // Pick up the changes of other tabs and devices.
+    this._storageListener = _storage.listen(STORAGE_KEY, () => this.reload());
+  }
+
+  protected disposeInternal() {
+    super.disposeInternal();
+
+    this._storageListener.dispose();
+  }
+
+  /**
+   * Loads the stored preferences once and migrates them to the current
+   * version.
+   */
+  private _load(): Promise<StoredPreferenceValues> {
+    if (!this._values) {
+      this._values = this._loadInternal();
+    }
+    return this._values;
+  }
+
+  private async _loadInternal(): Promise<StoredPreferenceValues> {
+    const data: IStoredPreferences = (await this._storage.get<IStoredPreferences>(STORAGE_KEY))
+      || { version: 0, values: {} };
+
+    if (data.version < PREFERENCE_MIGRATIONS.length) {
+      for (let version = data.version; version < PREFERENCE_MIGRATIONS.length; version++) {
+        await PREFERENCE_MIGRATIONS[version](this._storage, data.values);
+      }
+      data.version = PREFERENCE_MIGRATIONS.length;
+
+      await this._storage.set<IStoredPreferences>(STORAGE_KEY, data);
+    }
+
+    return data.values;
+  }
+
+  private async _save(values: StoredPreferenceValues): Promise<void> {
+    await this._storage.set<IStoredPreferences>(STORAGE_KEY, {
+      version: PREFERENCE_MIGRATIONS.length,
+      values: values
+    });
+  }
+
+  private _getValue<K extends PreferenceKey>(values: StoredPreferenceValues, key: K): IPreferenceValues[K] {
+    const definition = PREFERENCE_SCHEMA[key];
+    const value = values[key];
+    if (value === undefined || !definition.validate(value)) {
+      return _.cloneDeep(definition.default);
+    }
+    return value as IPreferenceValues[K];
+  }
+
+  async get<K extends PreferenceKey>(key: K): Promise<IPreferenceValues[K]> {
+    return this._getValue(await this._load(), key);
+  }
+
+  async set<K extends PreferenceKey>(key: K, value: IPreferenceValues[K]): Promise<void> {
+    const changes: StoredPreferenceValues = {};
+    changes[key] = value;
+
+    await this.update(changes);
+  }
+
+  async update(changes: StoredPreferenceValues): Promise<void> {
+    const keys = Object.keys(changes) as PreferenceKey[];
+    for (let i = 0; i < keys.length; i++) {
+      if (!PREFERENCE_SCHEMA.hasOwnProperty(keys[i])) {
+        throw new Error("Unknown preference " + keys[i]);
+      }
+      if (!PREFERENCE_SCHEMA[keys[i]].validate(changes[keys[i]])) {
+        throw new Error("Invalid value for preference " + keys[i]);
+      }
+    }
+
+    const values = await this._load();
+    const changed = keys
+      .filter(key => !_.isEqual(this._getValue(values, key), changes[key]));
+    if (changed.length === 0) return;
+
+    for (let i = 0; i < changed.length; i++) {
+      if (changes[changed[i]] === undefined) {
+        delete values[changed[i]];
+      } else {
+        values[changed[i]] = changes[changed[i]];
+      }
+    }
+    await this._save(values);
+
+    for (let i = 0; i < changed.length; i++) {
+      this.dispatchEvent(new PreferenceChangeEvent(changed[i], this._getValue(values, changed[i])));
+    }
+  }
+
+  async reset(key: PreferenceKey): Promise<void> {
+    const values = await this._load();
+    if (!values.hasOwnProperty(key)) return;
+
+    const previous = this._getValue(values, key);
+    delete values[key];
+    await this._save(values);
+
+    const value = this._getValue(values, key);
+    if (!_.isEqual(previous, value)) {
+      this.dispatchEvent(new PreferenceChangeEvent(key, value));
+    }
+  }
+
+  async reload(): Promise<void> {
+    if (!this._values) return;
+
+    const previous = await this._values;
+    this._values = this._loadInternal();
+    const values = await this._values;
+
+    for (let key in PREFERENCE_SCHEMA) {
+      if (!PREFERENCE_SCHEMA.hasOwnProperty(key)) continue;
+
+      const value = this._getValue(values, key as PreferenceKey);
+      if (!_.isEqual(this._getValue(previous, key as PreferenceKey), value)) {
+        this.dispatchEvent(new PreferenceChangeEvent(key as PreferenceKey, value));
+      }
+    }
+  }
+
+  async getAll(): Promise<IPreferenceValues> {
+    const values = await this._load();
+
+    const all = {} as IPreferenceValues;
+    for (let key in PREFERENCE_SCHEMA) {
+      if (PREFERENCE_SCHEMA.hasOwnProperty(key)) {
+        all[key as PreferenceKey] = this._getValue(values, key as PreferenceKey);
+      }
+    }
+    return all;
+  }
+}
\ No newline at end of file
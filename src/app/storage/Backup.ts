@@ -0,0 +1,179 @@
+import container from "../../config/inversify.config";
+import { IMechanism, IMechanismSymbol } from "./mechanism/IMechanism";
+import { IWatchHistory } from "../player/WatchHistory";
+import { ISubtitleDelays } from "../player/SubtitleDelay";
+import { ISeriesChapterMarks } from "../player/ChapterMarks";
+import * as _ from 'lodash';
+
+/**
+ * Identifies a JSON file as a backup of the extension.
+ */
+const BACKUP_FORMAT = 'crunchyroll-html5-backup';
+const BACKUP_VERSION = 1;
+
+/**
+ * The keys that only matter to the current session, e.g. the tab that is
+ * playing.
+ */
+const EXCLUDED_KEYS = ['playingTab'];
+
+/**
+ * Merges the stored value of a key with the value of a backup.
+ */
+type BackupMerger = (stored: any, backup: any) => any;
+
+/**
+ * Merges the entries of a backup into the stored ones. The entry that has
+ * been updated last wins.
+ */
+function mergeTimestampedEntries<T extends IWatchHistory|ISubtitleDelays>(stored: T, backup: T): T {
+  const merged = _.assign({}, stored) as T;
+  for (let id in backup) {
+    if (!backup.hasOwnProperty(id)) continue;
+
+    if (!merged.hasOwnProperty(id) || !(merged[id].updated > backup[id].updated)) {
+      merged[id] = backup[id];
+    }
+  }
+  return merged;
+}
+
+/**
+ * The keys whose values are merged per entry instead of being replaced when
+ * a backup is merged. Otherwise the entries of the backup win.
+ */
+const MERGERS: {[key: string]: BackupMerger} = {
+  'preferences': (stored: any, backup: any) => ({
+    version: Math.max(stored.version || 0, backup.version || 0),
+    values: _.assign({}, stored.values, backup.values)
+  }),
+  'watchHistory': (stored: IWatchHistory, backup: IWatchHistory) => mergeTimestampedEntries(stored, backup),
+  'subtitleDelays': (stored: ISubtitleDelays, backup: ISubtitleDelays) => mergeTimestampedEntries(stored, backup),
+  'chapterMarks': (stored: ISeriesChapterMarks, backup: ISeriesChapterMarks) => _.assign({}, stored, backup)
+};
+
+function isMergeable(value: any): boolean {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Returns the value of a backup merged with the stored value of its key.
+ */
+async function mergeWithStored(mechanism: IMechanism, key: string, value: any): Promise<any> {
+  if (!MERGERS.hasOwnProperty(key) || !isMergeable(value)) return value;
+
+  const json = await mechanism.get(key);
+  if (json === undefined) return value;
+
+  let stored: any;
+  try {
+    stored = JSON.parse(json);
+  } catch (e) {
+    return value;
+  }
+  if (!isMergeable(stored)) return value;
+
+  return MERGERS[key](stored, value);
+}
+
+/**
+ * A backup of everything that's stored by the extension, e.g. the
+ * preferences and the watch history.
+ */
+export interface IBackup {
+  format: string;
+  version: number;
+
+  /**
+   * The date the backup has been created at as an ISO string.
+   */
+  created: string;
+
+  /**
+   * The stored values by their key.
+   */
+  values: {[key: string]: any};
+}
+
+/**
+ * How a backup is imported. `merge` keeps the values that aren't in the
+ * backup while `overwrite` removes them.
+ */
+export type BackupImportMode = 'merge'|'overwrite';
+
+/**
+ * Creates a backup of all stored values.
+ */
+export async function exportBackup(): Promise<IBackup> {
+  const mechanism = container.get<IMechanism>(IMechanismSymbol);
+
+  const values: {[key: string]: any} = {};
+  const keys = await mechanism.keys();
+  for (let i = 0; i < keys.length; i++) {
+    if (EXCLUDED_KEYS.indexOf(keys[i]) !== -1) continue;
+
+    const json = await mechanism.get(keys[i]);
+    if (json === undefined) continue;
+
+    try {
+      values[keys[i]] = JSON.parse(json);
+    } catch (e) {
+      // The value hasn't been stored by the extension.
+    }
+  }
+
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    created: new Date().toISOString(),
+    values: values
+  };
+}
+
+/**
+ * Parses the content of a backup file. It throws if the content isn't a
+ * backup or has been created by a newer version.
+ * @param content the content of the file.
+ */
+export function parseBackup(content: string): IBackup {
+  let backup: IBackup;
+  try {
+    backup = JSON.parse(content);
+  } catch (e) {
+    throw new Error("The file isn't a backup");
+  }
+
+  if (!backup || backup.format !== BACKUP_FORMAT || typeof backup.values !== 'object' || backup.values === null) {
+    throw new Error("The file isn't a backup");
+  }
+  if (typeof backup.version !== 'number' || backup.version > BACKUP_VERSION) {
+    throw new Error("The backup has been created by a newer version");
+  }
+
+  return backup;
+}
+
+/**
+ * Restores the values of a backup. The page needs to be reloaded afterwards
+ * as the values that have already been loaded aren't updated.
+ * @param backup the backup.
+ * @param mode whether to keep the values and entries that aren't in the
+ * backup.
+ */
+export async function importBackup(backup: IBackup, mode: BackupImportMode): Promise<void> {
+  const mechanism = container.get<IMechanism>(IMechanismSymbol);
+
+  if (mode === 'overwrite') {
+    await mechanism.clear();
+  }
+
+  for (let key in backup.values) {
+    if (!backup.values.hasOwnProperty(key) || backup.values[key] === undefined) continue;
+    if (EXCLUDED_KEYS.indexOf(key) !== -1) continue;
+
+    const value = mode === 'merge'
+      ? await mergeWithStored(mechanism, key, backup.values[key])
+      : backup.values[key];
+    await mechanism.set(key, JSON.stringify(value));
+  }
+}
\ No newline at end of file
@@ -1,7 +1,18 @@
+import { IDisposable } from "../libs/disposable/IDisposable";
+
 export interface IStorage {
   set<T = any>(key: string, value: T|undefined): Promise<void>;
   get<T = any>(key: string): Promise<T|undefined>;
   remove(key: string): Promise<void>;
+
+  /**
+   * Calls the callback with the new value when the value of a key has been
+   * changed elsewhere, e.g. in another tab. The changes of the own tab aren't
+   * notified. Returns a disposable that removes the listener.
+   * @param key the key of the value.
+   * @param callback the callback.
+   */
+  listen<T = any>(key: string, callback: (value: T|undefined) => void): IDisposable;
 }
 
 export const IStorageSymbol = Symbol.for("IStorage");
\ No newline at end of file
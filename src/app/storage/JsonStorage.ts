@@ -1,6 +1,8 @@
-import { IMechanism, IMechanismSymbol } from "./mechanism/IMechanism";
+import { IMechanism, IMechanismSymbol, MechanismChangeEvent } from "./mechanism/IMechanism";
 import { IStorage } from "./IStorage";
 import { StorageError } from "./StorageError";
+import { IDisposable } from "../libs/disposable/IDisposable";
+import { Disposable } from "../libs/disposable/Disposable";
 import { injectable, inject } from "inversify";
 
 @injectable()
@@ -51,4 +53,31 @@ export class JsonStorage implements IStorage {
   async remove(key: string): Promise<void> {
     await this._mechanism.remove(key);
   }
+
+  /**
+   * Listens to the changes of a value that are made elsewhere.
+   * @param key the key of the value.
+   * @param callback the callback that's called with the new value.
+   */
+  listen(key: string, callback: (value: any) => void): IDisposable {
+    const listener = async (e: MechanismChangeEvent) => {
+      if (e.key !== key) return;
+
+      let value: any;
+      try {
+        value = await this.get(key);
+      } catch (err) {
+        return;
+      }
+      callback(value);
+    };
+
+    this._mechanism.watch(key);
+    this._mechanism.listen('change', listener, false);
+
+    const disposable = new Disposable();
+    disposable.addOnDisposeCallback(() => this._mechanism.unlisten('change', listener, false));
+
+    return disposable;
+  }
 }
\ No newline at end of file
@@ -1,9 +1,10 @@
 import { IMechanism, StorageTestAvailabilityKey } from "./IMechanism";
 import { StorageError } from "../StorageError";
+import { EventTarget } from "../../libs/events/EventTarget";
 import { injectable } from "inversify";
 
 @injectable()
-export class EmptyMechanism implements IMechanism {
+export class EmptyMechanism extends EventTarget implements IMechanism {
   async set(key: string, value: string): Promise<void> {
     
   }
@@ -15,4 +16,16 @@ export class EmptyMechanism implements IMechanism {
   async remove(key: string): Promise<void> {
     
   }
+
+  async keys(): Promise<string[]> {
+    return [];
+  }
+
+  async clear(): Promise<void> {
+    
+  }
+
+  watch(key: string): void {
+    
+  }
 }
\ No newline at end of file
@@ -1,9 +1,26 @@
-import { IMechanism, StorageTestAvailabilityKey } from "./IMechanism";
+import { IMechanism, StorageTestAvailabilityKey, MechanismChangeEvent } from "./IMechanism";
 import { StorageError } from "../StorageError";
+import { EventTarget } from "../../libs/events/EventTarget";
 import { injectable } from "inversify";
 
 @injectable()
-export class GreasemonkeyMechanism implements IMechanism {
+export class GreasemonkeyMechanism extends EventTarget implements IMechanism {
+  /**
+   * The IDs of the value change listeners by their key.
+   */
+  private _listenerIds: {[key: string]: number} = {};
+
+  protected disposeInternal() {
+    super.disposeInternal();
+
+    for (let key in this._listenerIds) {
+      if (this._listenerIds.hasOwnProperty(key)) {
+        GM_removeValueChangeListener(this._listenerIds[key]);
+      }
+    }
+    this._listenerIds = {};
+  }
+
   async set(key: string, value: string): Promise<void> {
     await GM.setValue(key, value);
   }
@@ -20,6 +37,27 @@ export class GreasemonkeyMechanism implements IMechanism {
     await GM.deleteValue(key);
   }
 
+  async keys(): Promise<string[]> {
+    return await GM.listValues();
+  }
+
+  async clear(): Promise<void> {
+    const keys = await GM.listValues();
+    for (let i = 0; i < keys.length; i++) {
+      await GM.deleteValue(keys[i]);
+    }
+  }
+
+  watch(key: string): void {
+    if (this._listenerIds.hasOwnProperty(key) || typeof GM_addValueChangeListener !== 'function') return;
+
+    this._listenerIds[key] = GM_addValueChangeListener(key, (name: string, oldValue: any, newValue: any, remote: boolean) => {
+      if (remote) {
+        this.dispatchEvent(new MechanismChangeEvent(name));
+      }
+    });
+  }
+
   static async isAvailable(): Promise<boolean> {
     try {
       await GM.setValue(StorageTestAvailabilityKey, '1');
@@ -1,4 +1,12 @@
-export interface IMechanism {
+import { Event } from '../../libs/events/Event';
+import { EventTarget } from '../../libs/events/EventTarget';
+
+/**
+ * Stores string values. It dispatches a `MechanismChangeEvent` when a value
+ * has been changed elsewhere, e.g. in another tab, if the storage supports
+ * change notifications.
+ */
+export interface IMechanism extends EventTarget {
   /**
    * Set a value with key.
    * @param key The key of the value to set.
@@ -17,6 +25,33 @@ export interface IMechanism {
    * @param key the key of the value to remove.
    */
   remove(key: string): Promise<void>;
+
+  /**
+   * Returns the keys of all stored values.
+   */
+  keys(): Promise<string[]>;
+
+  /**
+   * Removes all stored values.
+   */
+  clear(): Promise<void>;
+
+  /**
+   * Starts dispatching change events for a key. Mechanisms that notice the
+   * changes of all keys ignore it.
+   * @param key the key to watch.
+   */
+  watch(key: string): void;
+}
+
+/**
+ * Dispatched when a value has been changed elsewhere, e.g. in another tab or
+ * on another device.
+ */
+export class MechanismChangeEvent extends Event {
+  constructor(public key: string) {
+    super('change');
+  }
 }
 
 export const IMechanismSymbol = Symbol.for("IMechanismSymbol");
@@ -1,18 +1,49 @@
 import { injectable } from "inversify";
-import { IMechanism, StorageTestAvailabilityKey } from "./IMechanism";
+import { IMechanism, StorageTestAvailabilityKey, MechanismChangeEvent } from "./IMechanism";
 import { StorageError } from "../StorageError";
+import { EventTarget } from "../../libs/events/EventTarget";
+import { EventHandler } from "../../libs/events/EventHandler";
+import { BrowserEvent } from "../../libs/events/BrowserEvent";
+
+/**
+ * The key of the list of keys that have been written by the mechanism. The
+ * local storage is shared with the page, so its own keys can't be told apart
+ * otherwise. Keys that are only read may belong to the page.
+ */
+const KEYS_KEY = '__crunchyroll-html5-keys';
 
 @injectable()
-export class LocalStorageMechanism implements IMechanism {
+export class LocalStorageMechanism extends EventTarget implements IMechanism {
   private _storage: Storage;
+  private _handler = new EventHandler(this);
 
   constructor() {
+    super();
+
     this._storage = window.localStorage;
+
+    // The event is only dispatched for the changes of other tabs.
+    this._handler.listen(window, 'storage', this._onStorage, false);
+  }
+
+  protected disposeInternal() {
+    super.disposeInternal();
+
+    this._handler.dispose();
+  }
+
+  private _onStorage(e: BrowserEvent) {
+    const event = e.getBrowserEvent() as StorageEvent;
+    if (event.storageArea !== this._storage || event.key === null || event.key === KEYS_KEY) return;
+    if (this._getKeys().indexOf(event.key) === -1) return;
+
+    this.dispatchEvent(new MechanismChangeEvent(event.key));
   }
 
   async set(key: string, value: string): Promise<void> {
     try {
       this._storage.setItem(key, value);
+      this._addKey(key);
     } catch (e) {
       if (this._storage.length === 0) {
         throw StorageError.StorageDisabled;
@@ -38,6 +69,50 @@ export class LocalStorageMechanism implements IMechanism {
 
   async remove(key: string): Promise<void> {
     this._storage.removeItem(key);
+
+    const keys = this._getKeys();
+    const index = keys.indexOf(key);
+    if (index !== -1) {
+      keys.splice(index, 1);
+      this._storage.setItem(KEYS_KEY, JSON.stringify(keys));
+    }
+  }
+
+  async keys(): Promise<string[]> {
+    return this._getKeys()
+      .filter(key => this._storage.getItem(key) !== null);
+  }
+
+  async clear(): Promise<void> {
+    const keys = this._getKeys();
+    for (let i = 0; i < keys.length; i++) {
+      this._storage.removeItem(keys[i]);
+    }
+    this._storage.removeItem(KEYS_KEY);
+  }
+
+  watch(key: string): void {
+    // The storage event is dispatched for all keys.
+  }
+
+  private _getKeys(): string[] {
+    const json = this._storage.getItem(KEYS_KEY);
+    if (!json) return [];
+
+    try {
+      const keys = JSON.parse(json);
+      return Array.isArray(keys) ? keys : [];
+    } catch (e) {
+      return [];
+    }
+  }
+
+  private _addKey(key: string): void {
+    const keys = this._getKeys();
+    if (keys.indexOf(key) !== -1) return;
+
+    keys.push(key);
+    this._storage.setItem(KEYS_KEY, JSON.stringify(keys));
   }
 
   static async isAvailable(): Promise<boolean> {
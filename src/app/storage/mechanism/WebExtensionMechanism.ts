@@ -1,13 +1,33 @@
 import { StorageError } from "../StorageError";
-import { IMechanism } from "./IMechanism";
+import { IMechanism, MechanismChangeEvent } from "./IMechanism";
+import { EventTarget } from "../../libs/events/EventTarget";
 import * as browser from 'webextension-polyfill';
 import { injectable } from "inversify";
 
 @injectable()
-export class WebExtensionMechanism implements IMechanism {
+export class WebExtensionMechanism extends EventTarget implements IMechanism {
+  /**
+   * The values that have been written by this tab and whose change hasn't
+   * been notified yet. The changes are notified in all tabs.
+   */
+  private _ownChanges: {[key: string]: string|undefined} = {};
+
+  constructor() {
+    super();
+
+    browser.storage.onChanged.addListener(this._onChanged);
+  }
+
+  protected disposeInternal() {
+    super.disposeInternal();
+
+    browser.storage.onChanged.removeListener(this._onChanged);
+  }
+
   async set(key: string, value: string): Promise<void> {
     const obj = {} as any;
     obj[key] = value;
+    this._ownChanges[key] = value;
     await browser.storage.local.set(obj);
   }
 
@@ -21,6 +41,34 @@ export class WebExtensionMechanism implements IMechanism {
   }
 
   async remove(key: string): Promise<void> {
+    this._ownChanges[key] = undefined;
     await browser.storage.local.remove(key);
   }
+
+  async keys(): Promise<string[]> {
+    const values = await browser.storage.local.get(null);
+    return Object.keys(values);
+  }
+
+  async clear(): Promise<void> {
+    await browser.storage.local.clear();
+  }
+
+  watch(key: string): void {
+    // The changes of all keys are notified.
+  }
+
+  private _onChanged = (changes: {[key: string]: browser.storage.IStorageChange}, areaName: string) => {
+    if (areaName !== 'local') return;
+
+    for (let key in changes) {
+      if (!changes.hasOwnProperty(key)) continue;
+
+      if (this._ownChanges.hasOwnProperty(key) && this._ownChanges[key] === changes[key].newValue) {
+        delete this._ownChanges[key];
+        continue;
+      }
+      this.dispatchEvent(new MechanismChangeEvent(key));
+    }
+  };
 }
\ No newline at end of file
@@ -0,0 +1,435 @@
+import { IMechanism, MechanismChangeEvent } from "./IMechanism";
+import { StorageError } from "../StorageError";
+import { EventTarget } from "../../libs/events/EventTarget";
+import { EventHandler } from "../../libs/events/EventHandler";
+import * as browser from 'webextension-polyfill';
+import { injectable } from "inversify";
+
+/**
+ * The keys that are synced between devices. Bulky data like the watch history
+ * is only stored locally.
+ */
+const SYNCED_KEYS = ['preferences'];
+
+/**
+ * The local key of the times the synced values have been modified at.
+ */
+const MODIFIED_KEY = '__modified';
+
+/**
+ * The maximum size of an item in `storage.sync` is 8192 bytes including its
+ * key, which is at most a few dozen bytes.
+ */
+const MAX_CHUNK_BYTES = 8000;
+
+/**
+ * The delay before a value is written to `storage.sync`. It keeps quick
+ * changes like dragging the volume slider below the write quota.
+ */
+const SYNC_DELAY = 5000;
+
+/**
+ * The delay before a write to `storage.sync` that has failed is retried, e.g.
+ * because the write quota per minute is exceeded.
+ */
+const SYNC_RETRY_DELAY = 60000;
+const MAX_SYNC_RETRIES = 3;
+
+/**
+ * The item of a synced value. The value itself is stored in chunks, which are
+ * specific to each write so that concurrent writes don't mix their chunks.
+ */
+interface ISyncMetadata {
+  id: string;
+  chunks: number;
+  modified: number;
+}
+
+interface ISyncedValue {
+  value: string;
+  modified: number;
+}
+
+/**
+ * A value that is waiting to be written to `storage.sync`.
+ */
+interface IPendingSync extends ISyncedValue {
+  timer: number;
+  retries: number;
+}
+
+function isSyncedKey(key: string): boolean {
+  return SYNCED_KEYS.indexOf(key) !== -1;
+}
+
+function getChunkPrefix(key: string): string {
+  return key + '@';
+}
+
+function getChunkKey(key: string, id: string, index: number): string {
+  return getChunkPrefix(key) + id + '#' + index;
+}
+
+/**
+ * Returns the number of bytes that the character at an index takes in a JSON
+ * string.
+ */
+function getSerializedSize(value: string, index: number): number {
+  const char = value.charAt(index);
+  const code = value.charCodeAt(index);
+  if (char === '"' || char === '\\') return 2;
+  if (code < 0x20) return 6;
+  if (code < 0x80) return 1;
+  if (code < 0x800) return 2;
+  if (code >= 0xD800 && code <= 0xDBFF) return 4;
+  return 3;
+}
+
+/**
+ * Splits a value into chunks that fit into an item of `storage.sync`.
+ * Surrogate pairs aren't split.
+ */
+function splitIntoChunks(value: string): string[] {
+  const chunks: string[] = [];
+  let start = 0;
+  let size = 0;
+  for (let i = 0; i < value.length; i++) {
+    const charSize = getSerializedSize(value, i);
+    if (size + charSize > MAX_CHUNK_BYTES) {
+      chunks.push(value.substring(start, i));
+      start = i;
+      size = 0;
+    }
+    size += charSize;
+
+    // Skip the low surrogate, which has been counted with the high one.
+    if (charSize === 4) {
+      i++;
+    }
+  }
+  chunks.push(value.substring(start));
+
+  return chunks;
+}
+
+/**
+ * Stores the values in the local storage of the extension and syncs the
+ * preferences through `storage.sync`. If the values differ, the one that has
+ * been modified last wins. Values that can't be synced, e.g. because the
+ * quota is exceeded, are kept locally.
+ */
+@injectable()
+export class WebExtensionSyncMechanism extends EventTarget implements IMechanism {
+  private _handler = new EventHandler(this);
+  private _pendingSyncs: {[key: string]: IPendingSync} = {};
+
+  /**
+   * The local values that have been written by this tab and whose change
+   * hasn't been notified yet. The changes are notified in all tabs.
+   */
+  private _ownChanges: {[key: string]: string|undefined} = {};
+
+  constructor() {
+    super();
+
+    browser.storage.onChanged.addListener(this._onChanged);
+
+    // The pending writes would be lost with the page.
+    this._handler.listen(window, 'pagehide', this._flush, false);
+
+    // Push the values whose write has been lost before, e.g. because the tab
+    // has been closed.
+    for (let i = 0; i < SYNCED_KEYS.length; i++) {
+      this.get(SYNCED_KEYS[i])
+        .catch(() => {
+          // The value is synced the next time it's read.
+        });
+    }
+  }
+
+  protected disposeInternal() {
+    super.disposeInternal();
+
+    this._handler.dispose();
+    browser.storage.onChanged.removeListener(this._onChanged);
+    this._cancelSyncs();
+  }
+
+  async set(key: string, value: string): Promise<void> {
+    const obj = {} as any;
+    obj[key] = value;
+    this._ownChanges[key] = value;
+    await browser.storage.local.set(obj);
+
+    if (!isSyncedKey(key)) return;
+
+    const modified = Date.now();
+    await this._setModified(key, modified);
+
+    this._scheduleSync(key, value, modified, SYNC_DELAY);
+  }
+
+  async get(key: string): Promise<string|undefined> {
+    const values = await browser.storage.local.get(key);
+    const value = values[key];
+    if (typeof value !== "string" && value !== undefined && value !== null) {
+      throw StorageError.InvalidValue;
+    }
+
+    if (!isSyncedKey(key) || this._pendingSyncs.hasOwnProperty(key)) {
+      return value === null ? undefined : value;
+    }
+
+    const modified = (await this._getModified())[key] || 0;
+    const synced = await this._getSynced(key);
+    if (synced && synced.modified > modified) {
+      // The value has been modified on another device.
+      const obj = {} as any;
+      obj[key] = synced.value;
+      this._ownChanges[key] = synced.value;
+      await browser.storage.local.set(obj);
+      await this._setModified(key, synced.modified);
+
+      return synced.value;
+    }
+
+    if (typeof value === "string" && modified > 0 && (!synced || synced.modified < modified)) {
+      // The value has been modified locally but its write has been lost.
+      this._scheduleSync(key, value, modified, 0);
+    }
+
+    return value === null ? undefined : value;
+  }
+
+  async remove(key: string): Promise<void> {
+    this._ownChanges[key] = undefined;
+    await browser.storage.local.remove(key);
+
+    if (!isSyncedKey(key)) return;
+
+    this._cancelSync(key);
+
+    const modified = await this._getModified();
+    delete modified[key];
+
+    const obj = {} as any;
+    obj[MODIFIED_KEY] = modified;
+    await browser.storage.local.set(obj);
+
+    try {
+      await this._removeSynced(key);
+    } catch (e) {
+      // Sync is unavailable.
+    }
+  }
+
+  async keys(): Promise<string[]> {
+    const values = await browser.storage.local.get(null);
+    const keys = Object.keys(values)
+      .filter(key => key !== MODIFIED_KEY);
+
+    for (let i = 0; i < SYNCED_KEYS.length; i++) {
+      if (keys.indexOf(SYNCED_KEYS[i]) === -1 && await this._getSynced(SYNCED_KEYS[i])) {
+        keys.push(SYNCED_KEYS[i]);
+      }
+    }
+    return keys;
+  }
+
+  async clear(): Promise<void> {
+    this._cancelSyncs();
+
+    await browser.storage.local.clear();
+    try {
+      await browser.storage.sync.clear();
+    } catch (e) {
+      // Sync is unavailable.
+    }
+  }
+
+  watch(key: string): void {
+    // The changes of all keys are notified.
+  }
+
+  private async _getModified(): Promise<{[key: string]: number}> {
+    const values = await browser.storage.local.get(MODIFIED_KEY);
+    return values[MODIFIED_KEY] || {};
+  }
+
+  private async _setModified(key: string, time: number): Promise<void> {
+    const modified = await this._getModified();
+    modified[key] = time;
+
+    const obj = {} as any;
+    obj[MODIFIED_KEY] = modified;
+    await browser.storage.local.set(obj);
+  }
+
+  /**
+   * Returns the synced value of a key or undefined if it hasn't been synced
+   * or sync is unavailable.
+   */
+  private async _getSynced(key: string): Promise<ISyncedValue|undefined> {
+    try {
+      const metadata: ISyncMetadata|undefined = (await browser.storage.sync.get(key))[key];
+      if (!metadata || typeof metadata.id !== 'string' || typeof metadata.chunks !== 'number') return undefined;
+
+      const chunkKeys: string[] = [];
+      for (let i = 0; i < metadata.chunks; i++) {
+        chunkKeys.push(getChunkKey(key, metadata.id, i));
+      }
+
+      const chunks = await browser.storage.sync.get(chunkKeys);
+      let value = "";
+      for (let i = 0; i < chunkKeys.length; i++) {
+        // The chunks of the write are incomplete.
+        if (typeof chunks[chunkKeys[i]] !== 'string') return undefined;
+
+        value += chunks[chunkKeys[i]];
+      }
+
+      return {
+        value: value,
+        modified: metadata.modified || 0
+      };
+    } catch (e) {
+      return undefined;
+    }
+  }
+
+  private _scheduleSync(key: string, value: string, modified: number, delay: number, retries: number = 0): void {
+    this._cancelSync(key);
+    this._pendingSyncs[key] = {
+      value: value,
+      modified: modified,
+      timer: window.setTimeout(() => this._sync(key), delay),
+      retries: retries
+    };
+  }
+
+  private _cancelSync(key: string): void {
+    if (!this._pendingSyncs.hasOwnProperty(key)) return;
+
+    window.clearTimeout(this._pendingSyncs[key].timer);
+    delete this._pendingSyncs[key];
+  }
+
+  private _cancelSyncs(): void {
+    for (let key in this._pendingSyncs) {
+      if (this._pendingSyncs.hasOwnProperty(key)) {
+        this._cancelSync(key);
+      }
+    }
+  }
+
+  /**
+   * Writes a pending value to `storage.sync` now.
+   */
+  private async _sync(key: string): Promise<void> {
+    const pending = this._pendingSyncs[key];
+    if (!pending) return;
+    this._cancelSync(key);
+
+    try {
+      await this._setSynced(key, pending.value, pending.modified);
+    } catch (e) {
+      // Sync is unavailable or its quota is exceeded. The write is retried
+      // unless the value has been modified in the meantime, otherwise the
+      // value is kept locally and pushed the next time it's read.
+      if (!this._pendingSyncs.hasOwnProperty(key) && pending.retries < MAX_SYNC_RETRIES) {
+        this._scheduleSync(key, pending.value, pending.modified, SYNC_RETRY_DELAY, pending.retries + 1);
+      }
+    }
+  }
+
+  /**
+   * Writes all pending values to `storage.sync`, e.g. before the page is
+   * unloaded.
+   */
+  private _flush(): void {
+    for (let key in this._pendingSyncs) {
+      if (this._pendingSyncs.hasOwnProperty(key)) {
+        this._sync(key);
+      }
+    }
+  }
+
+  private async _setSynced(key: string, value: string, modified: number): Promise<void> {
+    const id = modified.toString(36) + Math.random().toString(36).substring(2, 8);
+    const chunks = splitIntoChunks(value);
+
+    const items = {} as any;
+    for (let i = 0; i < chunks.length; i++) {
+      items[getChunkKey(key, id, i)] = chunks[i];
+    }
+    items[key] = {
+      id: id,
+      chunks: chunks.length,
+      modified: modified
+    } as ISyncMetadata;
+
+    await browser.storage.sync.set(items);
+
+    try {
+      await this._removeStaleChunks(key, id);
+    } catch (e) {
+      // The stale chunks are removed with the next write.
+    }
+  }
+
+  private async _removeSynced(key: string): Promise<void> {
+    await browser.storage.sync.remove(key);
+    await this._removeStaleChunks(key);
+  }
+
+  /**
+   * Removes the chunks that belong to other writes than the one that the
+   * metadata currently references. Nothing is removed if the metadata has been
+   * replaced by another write in the meantime, which removes them instead.
+   * @param key the key of the value.
+   * @param id the ID of the own write or undefined if the value has been
+   * removed.
+   */
+  private async _removeStaleChunks(key: string, id?: string): Promise<void> {
+    const items = await browser.storage.sync.get(null);
+    const metadata: ISyncMetadata|undefined = items[key];
+    const currentId = metadata && typeof metadata.id === 'string' ? metadata.id : undefined;
+    if (currentId !== id) return;
+
+    const prefix = getChunkPrefix(key);
+    const currentPrefix = currentId === undefined ? undefined : prefix + currentId + '#';
+
+    const stale = Object.keys(items)
+      .filter(name => name.indexOf(prefix) === 0 && (!currentPrefix || name.indexOf(currentPrefix) !== 0));
+    if (stale.length > 0) {
+      await browser.storage.sync.remove(stale);
+    }
+  }
+
+  private _onChanged = (changes: {[key: string]: browser.storage.IStorageChange}, areaName: string) => {
+    for (let key in changes) {
+      if (!changes.hasOwnProperty(key)) continue;
+
+      if (areaName === 'sync') {
+        if (isSyncedKey(key) && changes[key].newValue) {
+          this.dispatchEvent(new MechanismChangeEvent(key));
+        }
+      } else if (areaName === 'local' && key !== MODIFIED_KEY) {
+        if (this._ownChanges.hasOwnProperty(key) && this._ownChanges[key] === changes[key].newValue) {
+          delete this._ownChanges[key];
+          continue;
+        }
+        this.dispatchEvent(new MechanismChangeEvent(key));
+      }
+    }
+  };
+
+  static async isAvailable(): Promise<boolean> {
+    try {
+      await browser.storage.sync.get(null);
+      return true;
+    } catch (e) {
+      return false;
+    }
+  }
+}
\ No newline at end of file
@@ -0,0 +1,32 @@
+/**
+ * Saves text as a file by clicking a temporary download link.
+ * @param content the content of the file.
+ * @param filename the name of the file.
+ * @param contentType the MIME type of the file.
+ */
+export function downloadText(content: string, filename: string, contentType: string = 'text/plain'): void {
+  const blob = new Blob([content], { 'type': contentType + ';charset=utf-8' });
+  const url = URL.createObjectURL(blob);
+
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.style.display = 'none';
+
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+
+  // Revoking the URL right away may cancel the download in some browsers.
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+/**
+ * Removes the characters that aren't allowed in file names.
+ */
+export function sanitizeFilename(filename: string): string {
+  return filename
+    .replace(/[\\/:*?"<>|\u0000-\u001F]+/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
\ No newline at end of file
@@ -0,0 +1,12 @@
+/**
+ * Reads the content of a local file as text.
+ * @param file the file to read.
+ */
+export function readFileAsText(file: File): Promise<string> {
+  return new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsText(file);
+  });
+}
\ No newline at end of file
@@ -0,0 +1,52 @@
+declare interface PictureInPictureVideoElement extends HTMLVideoElement {
+  requestPictureInPicture(): Promise<any>;
+}
+
+declare interface PictureInPictureDocument extends Document {
+  pictureInPictureEnabled: boolean;
+  pictureInPictureElement: Element|null;
+  exitPictureInPicture(): Promise<void>;
+}
+
+declare interface CaptureStreamCanvasElement extends HTMLCanvasElement {
+  captureStream(frameRate?: number): MediaStream;
+}
+
+export function isPictureInPictureEnabled(): boolean {
+  const doc = document as PictureInPictureDocument;
+
+  return doc.pictureInPictureEnabled === true;
+}
+
+export function requestPictureInPicture(video: HTMLVideoElement): Promise<void> {
+  const el = video as PictureInPictureVideoElement;
+  if (typeof el.requestPictureInPicture !== "function") {
+    return Promise.reject(new Error("Picture-in-picture is not supported."));
+  }
+
+  return el.requestPictureInPicture().then(() => undefined);
+}
+
+export function exitPictureInPicture(): Promise<void> {
+  const doc = document as PictureInPictureDocument;
+  if (typeof doc.exitPictureInPicture !== "function") return Promise.resolve();
+
+  return doc.exitPictureInPicture();
+}
+
+export function getPictureInPictureElement(): Element|undefined {
+  const doc = document as PictureInPictureDocument;
+
+  return doc.pictureInPictureElement || undefined;
+}
+
+/**
+ * Returns whether the stream of a canvas can be captured.
+ */
+export function isCaptureStreamSupported(): boolean {
+  return typeof (HTMLCanvasElement.prototype as CaptureStreamCanvasElement).captureStream === "function";
+}
+
+export function captureCanvasStream(canvas: HTMLCanvasElement, frameRate: number): MediaStream {
+  return (canvas as CaptureStreamCanvasElement).captureStream(frameRate);
+}
\ No newline at end of file
@@ -18,6 +18,15 @@ export function parseAndFormatTime(s: number): string {
   return formatTime(hours, minutes, seconds);
 }
 
+/**
+ * Formats the time with millisecond precision, e.g. `1:23.042`.
+ */
+export function parseAndFormatPreciseTime(s: number): string {
+  const milliseconds = Math.floor((s - Math.floor(s)) * 1000);
+
+  return parseAndFormatTime(s) + "." + padLeft(milliseconds, 3);
+}
+
 export function formatTime(hours: number, minutes: number, seconds: number): string {
   let format: string = "";
   if (hours > 0) {
@@ -9,6 +9,19 @@ declare namespace browser.storage {
     clear(): Promise<void>;
     getBytesInUse(keys: null|string|string[]): Promise<number>;
   }
+
+  interface IStorageChange {
+    oldValue?: any;
+    newValue?: any;
+  }
+
+  type ChangeListener = (changes: {[key: string]: IStorageChange}, areaName: string) => void;
+
+  const onChanged: {
+    addListener(listener: ChangeListener): void;
+    removeListener(listener: ChangeListener): void;
+    hasListener(listener: ChangeListener): boolean;
+  };
 }
 
 declare namespace browser.runtime {
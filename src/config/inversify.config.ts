@@ -4,11 +4,19 @@ import { JsonStorage } from "../app/storage/JsonStorage";
 import { IStorageSymbol, IStorage } from "../app/storage/IStorage";
 import { IMechanism, IMechanismSymbol } from "../app/storage/mechanism/IMechanism";
 import { LocalStorageMechanism } from "../app/storage/mechanism/LocalStorageMechanism";
+import { IPreferences, IPreferencesSymbol } from "../app/preferences/IPreferences";
+import { Preferences } from "../app/preferences/Preferences";
+import { Disposable } from "../app/libs/disposable/Disposable";
+import { EventTarget } from "../app/libs/events/EventTarget";
 
 const container = new Container({
   autoBindInjectable: true
 });
 
+decorate(injectable(), Disposable);
+decorate(injectable(), EventTarget);
+
 container.bind<IStorage>(IStorageSymbol).to(JsonStorage);
+container.bind<IPreferences>(IPreferencesSymbol).to(Preferences).inSingletonScope();
 
 export default container;
\ No newline at end of file